@@ -18,7 +18,20 @@ export {
 
 export {ContextConsumer} from './lib/controllers/context-consumer.js';
 export {ContextProvider} from './lib/controllers/context-provider.js';
+export {
+  DerivedContextProvider,
+  ContextTypes,
+} from './lib/controllers/derived-context-provider.js';
 export {ContextRoot} from './lib/context-root.js';
 
+export {
+  ContextConsumerInfo,
+  ContextProviderInfo,
+  dumpContextTree,
+  enableContextDevtools,
+  getContextConsumers,
+  getContextProviders,
+} from './lib/devtools.js';
+
 export {provide} from './lib/decorators/provide.js';
 export {consume} from './lib/decorators/consume.js';
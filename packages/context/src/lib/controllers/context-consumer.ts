@@ -9,15 +9,36 @@ import {
   ContextRequestEvent,
 } from '../context-request-event.js';
 import type {Context, ContextType} from '../create-context.js';
+import {registerConsumer, unregister} from '../devtools.js';
+import {addServerContextRequest, isServerHost} from '../server-context.js';
 import type {
   ReactiveController,
   ReactiveControllerHost,
 } from '@lit/reactive-element';
 
-export interface Options<C extends Context<unknown, unknown>> {
+const DEV_MODE = true;
+
+export interface Options<
+  C extends Context<unknown, unknown>,
+  Selected = ContextType<C>,
+> {
   context: C;
-  callback?: (value: ContextType<C>, dispose?: () => void) => void;
+  callback?: (value: Selected, dispose?: () => void) => void;
   subscribe?: boolean;
+  /**
+   * Selects the part of the provided value that the consumer uses. The
+   * selected value is stored as the consumer's `value` and passed to
+   * `callback`, which are only updated when it changes.
+   */
+  select?: (value: ContextType<C>) => Selected;
+  /**
+   * Returns true if a newly selected value is equal to the current one, in
+   * which case the host isn't updated and `callback` isn't called.
+   *
+   * The default is `Object.is()` when `select` is given. Without `select` or
+   * `equals`, every value the provider sends is used.
+   */
+  equals?: (oldValue: Selected, newValue: Selected) => boolean;
 }
 
 /**
@@ -35,18 +56,21 @@ export interface Options<C extends Context<unknown, unknown>> {
 export class ContextConsumer<
   C extends Context<unknown, unknown>,
   HostElement extends ReactiveControllerHost & HTMLElement,
+  Selected = ContextType<C>,
 > implements ReactiveController
 {
   protected host: HostElement;
   private context: C;
-  private callback?: (value: ContextType<C>, dispose?: () => void) => void;
+  private callback?: (value: Selected, dispose?: () => void) => void;
   private subscribe = false;
+  private select?: (value: ContextType<C>) => Selected;
+  private equals?: (oldValue: Selected, newValue: Selected) => boolean;
 
   private provided = false;
 
-  value?: ContextType<C> = undefined;
+  value?: Selected = undefined;
 
-  constructor(host: HostElement, options: Options<C>);
+  constructor(host: HostElement, options: Options<C, Selected>);
   /** @deprecated Use new ContextConsumer(host, options) */
   constructor(
     host: HostElement,
@@ -63,26 +87,53 @@ export class ContextConsumer<
     this.host = host;
     // This is a potentially fragile duck-type. It means a context object can't
     // have a property name context and be used in positional argument form.
-    if ((contextOrOptions as Options<C>).context !== undefined) {
-      const options = contextOrOptions as Options<C>;
+    if ((contextOrOptions as Options<C, Selected>).context !== undefined) {
+      const options = contextOrOptions as Options<C, Selected>;
       this.context = options.context;
       this.callback = options.callback;
       this.subscribe = options.subscribe ?? false;
+      this.select = options.select;
+      this.equals =
+        options.equals ??
+        (options.select !== undefined ? Object.is : undefined);
     } else {
       this.context = contextOrOptions as C;
-      this.callback = callback;
+      // Without `select`, the selected value is the provided value
+      this.callback = callback as
+        | ((value: Selected, dispose?: () => void) => void)
+        | undefined;
       this.subscribe = subscribe ?? false;
     }
     this.host.addController(this);
+    if (isServerHost(this.host)) {
+      // Hosts don't connect during SSR, so request the value from the server
+      // renderer instead
+      addServerContextRequest(this.host, {
+        context: this.context,
+        callback: this._callback,
+      });
+    }
   }
 
   private unsubscribe?: () => void;
 
   hostConnected(): void {
+    if (DEV_MODE) {
+      registerConsumer(
+        this,
+        this.context,
+        this.host,
+        this._callback,
+        this.subscribe
+      );
+    }
     this.dispatchRequest();
   }
 
   hostDisconnected(): void {
+    if (DEV_MODE) {
+      unregister(this);
+    }
     if (this.unsubscribe) {
       this.unsubscribe();
       this.unsubscribe = undefined;
@@ -112,8 +163,17 @@ export class ContextConsumer<
       }
     }
 
+    const selected = this.select
+      ? this.select(value)
+      : (value as unknown as Selected);
+    // skip values whose selected part hasn't changed
+    if (this.provided && this.equals?.(this.value as Selected, selected)) {
+      this.unsubscribe = unsubscribe;
+      return;
+    }
+
     // store the value so that it can be retrieved from the controller
-    this.value = value;
+    this.value = selected;
     // schedule an update in case this value is used in a template
     this.host.requestUpdate();
 
@@ -122,7 +182,7 @@ export class ContextConsumer<
     if (!this.provided || this.subscribe) {
       this.provided = true;
       if (this.callback) {
-        this.callback(value, unsubscribe);
+        this.callback(selected, unsubscribe);
       }
     }
 
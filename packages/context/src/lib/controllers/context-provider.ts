@@ -6,12 +6,16 @@
 
 import {ContextRequestEvent} from '../context-request-event.js';
 import {ValueNotifier} from '../value-notifier.js';
+import {recordRequest, registerProvider, unregister} from '../devtools.js';
+import {addServerContextProvider, isServerHost} from '../server-context.js';
 import type {Context, ContextType} from '../create-context.js';
 import type {
   ReactiveController,
   ReactiveControllerHost,
 } from '@lit/reactive-element';
 
+const DEV_MODE = true;
+
 declare global {
   interface HTMLElementEventMap {
     /**
@@ -104,6 +108,9 @@ export class ContextProvider<
       return;
     }
     ev.stopPropagation();
+    if (DEV_MODE) {
+      recordRequest(ev.callback, this);
+    }
     this.addCallback(ev.callback, consumerHost, ev.subscribe);
   };
 
@@ -155,12 +162,31 @@ export class ContextProvider<
   };
 
   private attachListeners() {
+    if (isServerHost(this.host)) {
+      addServerContextProvider(this.host, (request) => {
+        if (request.context !== this.context) {
+          return false;
+        }
+        request.callback(this.value);
+        return true;
+      });
+      return;
+    }
     this.host.addEventListener('context-request', this.onContextRequest);
     this.host.addEventListener('context-provider', this.onProviderRequest);
   }
 
   hostConnected(): void {
+    if (DEV_MODE) {
+      registerProvider(this, this.context, this.host);
+    }
     // emit an event to signal a provider is available for this context
     this.host.dispatchEvent(new ContextProviderEvent(this.context));
   }
+
+  hostDisconnected(): void {
+    if (DEV_MODE) {
+      unregister(this);
+    }
+  }
 }
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import type {Context, ContextType} from '../create-context.js';
+import type {ReactiveControllerHost} from '@lit/reactive-element';
+import {ContextConsumer} from './context-consumer.js';
+import {ContextProvider} from './context-provider.js';
+
+/**
+ * The value types of a list of contexts.
+ */
+export type ContextTypes<
+  Inputs extends ReadonlyArray<Context<unknown, unknown>>,
+> = {[K in keyof Inputs]: ContextType<Inputs[K]>};
+
+export interface Options<
+  C extends Context<unknown, unknown>,
+  Inputs extends ReadonlyArray<Context<unknown, unknown>>,
+> {
+  context: C;
+  /**
+   * The contexts that the value is derived from.
+   */
+  inputs: Inputs;
+  /**
+   * Computes the value from the values of the input contexts, in the same
+   * order as `inputs`.
+   */
+  derive: (...values: ContextTypes<Inputs>) => ContextType<C>;
+}
+
+/**
+ * A ContextProvider whose value is computed from the values of other
+ * contexts.
+ *
+ * The controller consumes the input contexts from the providers above its
+ * host, and provides the derived context to the elements below it. Once every
+ * input has a value, it calls `derive` with them, and again whenever one of
+ * them changes, and notifies subscribed consumers of the new value.
+ *
+ * @example
+ *
+ * ```ts
+ * class ThemeTokens extends LitElement {
+ *   private _tokens = new DerivedContextProvider(this, {
+ *     context: tokensContext,
+ *     inputs: [themeContext, densityContext],
+ *     derive: (theme, density) => computeTokens(theme, density),
+ *   });
+ * }
+ * ```
+ */
+export class DerivedContextProvider<
+  C extends Context<unknown, unknown>,
+  const Inputs extends ReadonlyArray<Context<unknown, unknown>>,
+  HostElement extends ReactiveControllerHost &
+    HTMLElement = ReactiveControllerHost & HTMLElement,
+> extends ContextProvider<C, HostElement> {
+  private readonly inputConsumers: ReadonlyArray<
+    ContextConsumer<Context<unknown, unknown>, HostElement>
+  >;
+  private readonly derive: (...values: ContextTypes<Inputs>) => ContextType<C>;
+
+  constructor(host: HostElement, options: Options<C, Inputs>) {
+    super(host, {context: options.context});
+    this.derive = options.derive;
+    const provided = new Set<number>();
+    this.inputConsumers = options.inputs.map(
+      (context, i) =>
+        new ContextConsumer(host, {
+          context,
+          callback: () => {
+            provided.add(i);
+            if (provided.size === options.inputs.length) {
+              this.recompute();
+            }
+          },
+          subscribe: true,
+        })
+    );
+  }
+
+  /**
+   * Computes the value from the current values of the inputs, and notifies
+   * subscribers if it changed.
+   */
+  recompute() {
+    this.setValue(
+      this.derive(
+        ...(this.inputConsumers.map(
+          (consumer) => consumer.value
+        ) as ContextTypes<Inputs>)
+      )
+    );
+  }
+}
@@ -22,6 +22,12 @@ import {Context} from '../create-context.js';
  * @param context A Context identifier value created via `createContext`
  * @param subscribe An optional boolean which when true allows the value to be updated
  *   multiple times.
+ * @param select An optional function that selects the part of the provided
+ *   value to set the property to. The property is only set when the selected
+ *   value changes.
+ * @param equals An optional function that returns true if a newly selected
+ *   value is equal to the current one. Defaults to `Object.is()` when `select`
+ *   is given.
  *
  * @example
  *
@@ -40,18 +46,22 @@ import {Context} from '../create-context.js';
  * ```
  * @category Decorator
  */
-export function consume<ValueType>({
+export function consume<ValueType, SelectedType = ValueType>({
   context,
   subscribe,
+  select,
+  equals,
 }: {
   context: Context<unknown, ValueType>;
   subscribe?: boolean;
-}): ConsumeDecorator<ValueType> {
+  select?: (value: ValueType) => SelectedType;
+  equals?: (oldValue: SelectedType, newValue: SelectedType) => boolean;
+}): ConsumeDecorator<SelectedType> {
   return ((
-    protoOrTarget: ClassAccessorDecoratorTarget<ReactiveElement, ValueType>,
+    protoOrTarget: ClassAccessorDecoratorTarget<ReactiveElement, SelectedType>,
     nameOrContext:
       | PropertyKey
-      | ClassAccessorDecoratorContext<ReactiveElement, ValueType>
+      | ClassAccessorDecoratorContext<ReactiveElement, SelectedType>
   ) => {
     if (typeof nameOrContext === 'object') {
       // Standard decorators branch
@@ -62,6 +72,8 @@ export function consume<ValueType>({
             protoOrTarget.set.call(this, value);
           },
           subscribe,
+          select,
+          equals,
         });
       });
     } else {
@@ -75,11 +87,13 @@ export function consume<ValueType>({
               (element as any)[nameOrContext] = value;
             },
             subscribe,
+            select,
+            equals,
           });
         }
       );
     }
-  }) as ConsumeDecorator<ValueType>;
+  }) as ConsumeDecorator<SelectedType>;
 }
 
 /**
@@ -0,0 +1,295 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+const DEV_MODE = true;
+
+/**
+ * A connected context provider, as recorded by the context devtools.
+ */
+export interface ContextProviderInfo {
+  /**
+   * The context key of the provider.
+   */
+  context: unknown;
+  /**
+   * The element that hosts the provider.
+   */
+  host: Element;
+  /**
+   * The current value of the provider.
+   */
+  value: unknown;
+  /**
+   * The connected consumers that were last provided a value by this provider.
+   */
+  consumers: ContextConsumerInfo[];
+}
+
+/**
+ * A connected context consumer, as recorded by the context devtools.
+ */
+export interface ContextConsumerInfo {
+  /**
+   * The context key that the consumer requests.
+   */
+  context: unknown;
+  /**
+   * The element that hosts the consumer.
+   */
+  host: Element;
+  /**
+   * The consumer's current value.
+   */
+  value: unknown;
+  /**
+   * Whether the consumer subscribes to changes of the value.
+   */
+  subscribe: boolean;
+  /**
+   * The provider that last provided a value to the consumer, or `undefined`
+   * if no provider has handled its request. It's also `undefined` if the
+   * value came from a provider that isn't a `ContextProvider`.
+   */
+  provider: ContextProviderInfo | undefined;
+}
+
+interface Controller {
+  readonly value?: unknown;
+}
+
+interface Registry {
+  providers: Map<Controller, {context: unknown; host: Element}>;
+  consumers: Map<
+    Controller,
+    {context: unknown; host: Element; callback: object; subscribe: boolean}
+  >;
+  // The provider that last handled the request of each consumer callback
+  callbackProviders: WeakMap<object, Controller>;
+}
+
+let registry: Registry | undefined;
+
+/**
+ * Starts recording the context providers and consumers that connect from now
+ * on, so that they can be inspected with `getContextProviders()`,
+ * `getContextConsumers()`, and `dumpContextTree()`.
+ *
+ * The registry is only available in dev mode, and should be enabled before
+ * elements with providers and consumers connect, for example at the top of an
+ * app's entrypoint. In production builds, this does nothing.
+ */
+export const enableContextDevtools = () => {
+  if (DEV_MODE) {
+    registry ??= {
+      providers: new Map(),
+      consumers: new Map(),
+      callbackProviders: new WeakMap(),
+    };
+  }
+};
+
+/**
+ * Records a connected provider.
+ *
+ * @internal
+ */
+export const registerProvider = (
+  provider: Controller,
+  context: unknown,
+  host: Element
+) => {
+  registry?.providers.set(provider, {context, host});
+};
+
+/**
+ * Records a connected consumer and the callback of its requests.
+ *
+ * @internal
+ */
+export const registerConsumer = (
+  consumer: Controller,
+  context: unknown,
+  host: Element,
+  callback: object,
+  subscribe: boolean
+) => {
+  registry?.consumers.set(consumer, {context, host, callback, subscribe});
+};
+
+/**
+ * Removes a disconnected provider or consumer from the registry.
+ *
+ * @internal
+ */
+export const unregister = (controller: Controller) => {
+  registry?.providers.delete(controller);
+  registry?.consumers.delete(controller);
+};
+
+/**
+ * Records that `provider` handled a request with `callback`.
+ *
+ * @internal
+ */
+export const recordRequest = (callback: object, provider: Controller) => {
+  registry?.callbackProviders.set(callback, provider);
+};
+
+const getInfo = () => {
+  const providers = new Map<Controller, ContextProviderInfo>();
+  const consumers: ContextConsumerInfo[] = [];
+  if (registry === undefined) {
+    return {providers: [], consumers};
+  }
+  // Providers with plain element hosts aren't told when they disconnect
+  for (const [provider, {host}] of registry.providers) {
+    if (!host.isConnected) {
+      registry.providers.delete(provider);
+    }
+  }
+  for (const [provider, {context, host}] of registry.providers) {
+    providers.set(provider, {
+      context,
+      host,
+      value: provider.value,
+      consumers: [],
+    });
+  }
+  for (const [
+    consumer,
+    {context, host, callback, subscribe},
+  ] of registry.consumers) {
+    const provider = providers.get(registry.callbackProviders.get(callback)!);
+    const info: ContextConsumerInfo = {
+      context,
+      host,
+      value: consumer.value,
+      subscribe,
+      provider,
+    };
+    provider?.consumers.push(info);
+    consumers.push(info);
+  }
+  return {providers: [...providers.values()], consumers};
+};
+
+/**
+ * Returns the connected context providers.
+ *
+ * Returns an empty array unless `enableContextDevtools()` has been called in
+ * dev mode.
+ */
+export const getContextProviders = (): ContextProviderInfo[] =>
+  getInfo().providers;
+
+/**
+ * Returns the connected context consumers.
+ *
+ * Returns an empty array unless `enableContextDevtools()` has been called in
+ * dev mode.
+ */
+export const getContextConsumers = (): ContextConsumerInfo[] =>
+  getInfo().consumers;
+
+const formatContext = (context: unknown) =>
+  typeof context === 'string' ? JSON.stringify(context) : String(context);
+
+const formatValue = (value: unknown) => {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+const formatHost = (host: Element) =>
+  `<${host.localName}${host.id ? `#${host.id}` : ''}>`;
+
+// Returns the parent of `node` in the composed tree
+const composedParent = (node: Node) =>
+  node.parentNode ?? (node as ShadowRoot).host ?? null;
+
+/**
+ * Returns a text tree of the connected context providers, and the consumers
+ * that each one provides a value to. Providers are nested under the closest
+ * ancestor element that has a provider. Consumers that haven't been provided
+ * a value by a provider are listed at the end.
+ *
+ * This is useful to answer questions like "why is this consumer getting
+ * `undefined`?" while debugging:
+ *
+ * ```
+ * <my-app>
+ *   provides "logger": {"level":"info"}
+ *   <my-panel>
+ *     provides "theme": "dark"
+ *     <my-button> consumes "theme": "dark"
+ * Consumers without a provider:
+ *   <my-menu> consumes "locale": undefined
+ * ```
+ *
+ * Returns an empty string unless `enableContextDevtools()` has been called in
+ * dev mode.
+ */
+export const dumpContextTree = (): string => {
+  const {providers, consumers} = getInfo();
+  const hosts = new Map<Element, ContextProviderInfo[]>();
+  for (const provider of providers) {
+    let hostProviders = hosts.get(provider.host);
+    if (hostProviders === undefined) {
+      hosts.set(provider.host, (hostProviders = []));
+    }
+    hostProviders.push(provider);
+  }
+  const children = new Map<Element | null, Element[]>();
+  for (const host of hosts.keys()) {
+    let parent = composedParent(host);
+    while (parent !== null && !hosts.has(parent as Element)) {
+      parent = composedParent(parent);
+    }
+    let siblings = children.get(parent as Element | null);
+    if (siblings === undefined) {
+      children.set(parent as Element | null, (siblings = []));
+    }
+    siblings.push(host);
+  }
+  const lines: string[] = [];
+  const dumpHost = (host: Element, indent: string) => {
+    lines.push(`${indent}${formatHost(host)}`);
+    for (const provider of hosts.get(host)!) {
+      lines.push(
+        `${indent}  provides ${formatContext(provider.context)}: ${formatValue(
+          provider.value
+        )}`
+      );
+      for (const consumer of provider.consumers) {
+        lines.push(
+          `${indent}  ${formatHost(consumer.host)} consumes ${formatContext(
+            consumer.context
+          )}: ${formatValue(consumer.value)}`
+        );
+      }
+    }
+    for (const child of children.get(host) ?? []) {
+      dumpHost(child, `${indent}  `);
+    }
+  };
+  for (const host of children.get(null) ?? []) {
+    dumpHost(host, '');
+  }
+  const unprovided = consumers.filter(({provider}) => provider === undefined);
+  if (unprovided.length > 0) {
+    lines.push('Consumers without a provider:');
+    for (const consumer of unprovided) {
+      lines.push(
+        `  ${formatHost(consumer.host)} consumes ${formatContext(
+          consumer.context
+        )}: ${formatValue(consumer.value)}`
+      );
+    }
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import type {ContextRequest} from './context-request-event.js';
+import type {Context} from './create-context.js';
+
+type UnknownContextRequest = ContextRequest<Context<unknown, unknown>>;
+
+/**
+ * There are no DOM events during server-side rendering, so instead of
+ * dispatching and listening for `context-request` events, consumers and
+ * providers add their requests and request handlers to their host. The
+ * server renderer passes each element's requests to the handlers of its
+ * ancestors, starting with the closest, until one handles it.
+ *
+ * These properties are used by @lit-labs/ssr and must not be renamed.
+ */
+interface ServerContextHost {
+  _$litContextRequests$?: UnknownContextRequest[];
+  // Handlers return true if they handled the request
+  _$litContextProviders$?: Array<(request: UnknownContextRequest) => boolean>;
+}
+
+/**
+ * Returns true if `host` can't dispatch or listen for DOM events, as is the
+ * case for the DOM shim used for server-side rendering.
+ */
+export const isServerHost = (host: object) =>
+  (host as Partial<EventTarget>).dispatchEvent === undefined;
+
+export const addServerContextRequest = <C extends Context<unknown, unknown>>(
+  host: object,
+  request: ContextRequest<C>
+) => {
+  ((host as ServerContextHost)['_$litContextRequests$'] ??= []).push(
+    request as unknown as UnknownContextRequest
+  );
+};
+
+export const addServerContextProvider = (
+  host: object,
+  handler: (request: UnknownContextRequest) => boolean
+) => {
+  ((host as ServerContextHost)['_$litContextProviders$'] ??= []).push(handler);
+};
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {LitElement} from 'lit';
+
+import {
+  ContextConsumer,
+  ContextProvider,
+  createContext,
+  DerivedContextProvider,
+} from '@lit/context';
+import {assert} from 'chai';
+
+const themeContext = createContext<'light' | 'dark'>('theme');
+const densityContext = createContext<number>('density');
+const tokensContext = createContext<string>('tokens');
+
+class InputsProvider extends LitElement {
+  theme = new ContextProvider(this, {
+    context: themeContext,
+    initialValue: 'light',
+  });
+  density = new ContextProvider(this, {
+    context: densityContext,
+    initialValue: 1,
+  });
+}
+customElements.define('inputs-provider', InputsProvider);
+
+class TokensProvider extends LitElement {
+  deriveCalls = 0;
+  tokens = new DerivedContextProvider(this, {
+    context: tokensContext,
+    inputs: [themeContext, densityContext],
+    derive: (theme, density) => {
+      this.deriveCalls++;
+      return `${theme}-${density.toFixed(1)}`;
+    },
+  });
+}
+customElements.define('tokens-provider', TokensProvider);
+
+class TokensConsumer extends LitElement {
+  tokens = new ContextConsumer(this, {context: tokensContext, subscribe: true});
+}
+customElements.define('tokens-consumer', TokensConsumer);
+
+suite('DerivedContextProvider', () => {
+  let container: HTMLElement;
+  let inputs: InputsProvider;
+  let provider: TokensProvider;
+  let consumer: TokensConsumer;
+
+  setup(async () => {
+    container = document.createElement('div');
+    container.innerHTML = `
+      <inputs-provider>
+        <tokens-provider>
+          <tokens-consumer></tokens-consumer>
+        </tokens-provider>
+      </inputs-provider>
+    `;
+    document.body.appendChild(container);
+    inputs = container.querySelector('inputs-provider')!;
+    provider = container.querySelector('tokens-provider')!;
+    consumer = container.querySelector('tokens-consumer')!;
+    await consumer.updateComplete;
+  });
+
+  teardown(() => {
+    container.remove();
+  });
+
+  test('derives the value from the inputs', () => {
+    assert.equal(provider.tokens.value, 'light-1.0');
+    assert.equal(consumer.tokens.value, 'light-1.0');
+    assert.equal(provider.deriveCalls, 1);
+  });
+
+  test('recomputes the value when an input changes', () => {
+    inputs.theme.setValue('dark');
+    assert.equal(consumer.tokens.value, 'dark-1.0');
+    inputs.density.setValue(2);
+    assert.equal(consumer.tokens.value, 'dark-2.0');
+    assert.equal(provider.deriveCalls, 3);
+  });
+
+  test('waits for every input to have a value', async () => {
+    const el = document.createElement('tokens-provider') as TokensProvider;
+    document.body.appendChild(el);
+    assert.equal(el.tokens.value, undefined);
+    assert.equal(el.deriveCalls, 0);
+    el.remove();
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {LitElement} from 'lit';
+
+import {
+  ContextConsumer,
+  ContextProvider,
+  createContext,
+  dumpContextTree,
+  enableContextDevtools,
+  getContextConsumers,
+  getContextProviders,
+} from '@lit/context';
+import {assert} from 'chai';
+
+const DEV_MODE = !!LitElement.enableWarning;
+
+const themeContext = createContext<string>('theme');
+const localeContext = createContext<string>('locale');
+
+class DevtoolsProvider extends LitElement {
+  provider = new ContextProvider(this, {
+    context: themeContext,
+    initialValue: 'dark',
+  });
+}
+customElements.define('devtools-provider', DevtoolsProvider);
+
+class DevtoolsConsumer extends LitElement {
+  theme = new ContextConsumer(this, {context: themeContext, subscribe: true});
+  locale = new ContextConsumer(this, {context: localeContext});
+}
+customElements.define('devtools-consumer', DevtoolsConsumer);
+
+(DEV_MODE ? suite : suite.skip)('context devtools', () => {
+  let container: HTMLElement;
+  let provider: DevtoolsProvider;
+  let consumer: DevtoolsConsumer;
+
+  suiteSetup(() => {
+    enableContextDevtools();
+  });
+
+  setup(async () => {
+    container = document.createElement('div');
+    container.innerHTML = `
+      <devtools-provider id="outer">
+        <devtools-consumer></devtools-consumer>
+      </devtools-provider>
+    `;
+    document.body.appendChild(container);
+    provider = container.querySelector('devtools-provider')!;
+    consumer = container.querySelector('devtools-consumer')!;
+    await consumer.updateComplete;
+  });
+
+  teardown(() => {
+    container.remove();
+  });
+
+  test('records providers and the consumers they provide to', () => {
+    const [providerInfo] = getContextProviders();
+    assert.equal(getContextProviders().length, 1);
+    assert.equal(providerInfo.context, themeContext);
+    assert.equal(providerInfo.host, provider);
+    assert.equal(providerInfo.value, 'dark');
+    assert.equal(providerInfo.consumers.length, 1);
+    assert.equal(providerInfo.consumers[0].host, consumer);
+
+    const consumers = getContextConsumers();
+    assert.equal(consumers.length, 2);
+    const locale = consumers.find(({context}) => context === localeContext)!;
+    assert.equal(locale.provider, undefined);
+    assert.equal(locale.value, undefined);
+    assert.isFalse(locale.subscribe);
+  });
+
+  test('reports current values', () => {
+    provider.provider.setValue('light');
+    const [theme] = getContextConsumers();
+    assert.equal(theme.value, 'light');
+    assert.equal(theme.provider!.value, 'light');
+  });
+
+  test('dumps the tree', () => {
+    assert.equal(
+      dumpContextTree(),
+      [
+        '<devtools-provider#outer>',
+        '  provides "theme": "dark"',
+        '  <devtools-consumer> consumes "theme": "dark"',
+        'Consumers without a provider:',
+        '  <devtools-consumer> consumes "locale": undefined',
+      ].join('\n')
+    );
+  });
+
+  test('forgets disconnected providers and consumers', () => {
+    container.remove();
+    assert.deepEqual(getContextProviders(), []);
+    assert.deepEqual(getContextConsumers(), []);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {LitElement} from 'lit';
+
+import {
+  consume,
+  ContextConsumer,
+  ContextProvider,
+  createContext,
+} from '@lit/context';
+import {assert} from 'chai';
+
+interface Store {
+  user: {name: string};
+  count: number;
+}
+
+const storeContext = createContext<Store>('store');
+
+class StoreProvider extends LitElement {
+  store = new ContextProvider(this, {
+    context: storeContext,
+    initialValue: {user: {name: 'Ann'}, count: 0},
+  });
+}
+customElements.define('store-provider', StoreProvider);
+
+class StoreConsumer extends LitElement {
+  callbackValues: string[] = [];
+  updates = 0;
+
+  name = new ContextConsumer(this, {
+    context: storeContext,
+    subscribe: true,
+    select: (store) => store.user.name,
+    callback: (name) => {
+      this.callbackValues.push(name);
+    },
+  });
+
+  count = new ContextConsumer(this, {
+    context: storeContext,
+    subscribe: true,
+    select: (store) => ({count: store.count}),
+    equals: (a, b) => a.count === b.count,
+  });
+
+  @consume({context: storeContext, subscribe: true, select: (s) => s.user})
+  user?: Store['user'];
+
+  override updated() {
+    this.updates++;
+  }
+}
+customElements.define('store-consumer', StoreConsumer);
+
+suite('select', () => {
+  let container: HTMLElement;
+  let provider: StoreProvider;
+  let consumer: StoreConsumer;
+
+  setup(async () => {
+    container = document.createElement('div');
+    container.innerHTML = `
+      <store-provider>
+        <store-consumer></store-consumer>
+      </store-provider>
+    `;
+    document.body.appendChild(container);
+    provider = container.querySelector('store-provider')!;
+    consumer = container.querySelector('store-consumer')!;
+    await consumer.updateComplete;
+  });
+
+  teardown(() => {
+    container.remove();
+  });
+
+  test('consumers get the selected part of the value', () => {
+    assert.equal(consumer.name.value, 'Ann');
+    assert.deepEqual(consumer.count.value, {count: 0});
+    assert.deepEqual(consumer.user, {name: 'Ann'});
+    assert.deepEqual(consumer.callbackValues, ['Ann']);
+  });
+
+  test('consumers are not updated when their selected part is unchanged', async () => {
+    const {user} = provider.store.value;
+    const updates = consumer.updates;
+    provider.store.setValue({user, count: 0});
+    await consumer.updateComplete;
+    assert.equal(consumer.updates, updates);
+    assert.deepEqual(consumer.callbackValues, ['Ann']);
+  });
+
+  test('consumers are updated when their selected part changes', async () => {
+    const {user} = provider.store.value;
+    const count = consumer.count.value;
+    const updates = consumer.updates;
+    provider.store.setValue({user, count: 1});
+    await consumer.updateComplete;
+    assert.equal(consumer.updates, updates + 1);
+    assert.deepEqual(consumer.count.value, {count: 1});
+    assert.notEqual(consumer.count.value, count);
+    assert.equal(consumer.user, user);
+    assert.deepEqual(consumer.callbackValues, ['Ann']);
+
+    provider.store.setValue({user: {name: 'Bob'}, count: 1});
+    await consumer.updateComplete;
+    assert.equal(consumer.name.value, 'Bob');
+    assert.deepEqual(consumer.user, {name: 'Bob'});
+    assert.deepEqual(consumer.callbackValues, ['Ann', 'Bob']);
+  });
+});
@@ -1,6 +1,11 @@
 import {ReactiveElement} from 'lit';
 
-import {createContext, consume, provide} from '@lit/context';
+import {
+  createContext,
+  consume,
+  provide,
+  DerivedContextProvider,
+} from '@lit/context';
 
 const numberContext = createContext<number>('number');
 const numberOrUndefinedContext = createContext<number | undefined>(
@@ -142,4 +147,38 @@ suite('compilation tests', () => {
     }
     markAsUsed(TestElement);
   });
+
+  test('DerivedContextProvider derive functions get the input types', () => {
+    const stringContext = createContext<string>('string');
+    class TestElement extends ReactiveElement {
+      derived = new DerivedContextProvider(this, {
+        context: stringContext,
+        inputs: [numberContext, numberOrUndefinedContext],
+        derive: (a, b) => {
+          const n: number = a;
+          // @ts-expect-error b may be undefined
+          const m: number = b;
+          return `${n}${m}`;
+        },
+      });
+      wrongValue = new DerivedContextProvider(this, {
+        context: stringContext,
+        inputs: [numberContext],
+        // @ts-expect-error the derived value must match the context type
+        derive: (a) => a,
+      });
+    }
+    markAsUsed(TestElement);
+  });
+
+  test('@consume with select checks the selected type', () => {
+    class TestElement extends ReactiveElement {
+      @consume({context: numberContext, select: (n) => String(n)})
+      selectString = '';
+      // @ts-expect-error selected string consuming number
+      @consume({context: numberContext, select: (n) => String(n)})
+      selectNumber = 0;
+    }
+    markAsUsed(TestElement);
+  });
 });
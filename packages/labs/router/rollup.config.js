@@ -9,6 +9,6 @@ import {createRequire} from 'module';
 
 export default litProdConfig({
   packageName: createRequire(import.meta.url)('./package.json').name,
-  entryPoints: ['index', 'router', 'routes'],
-  external: ['lit'],
+  entryPoints: ['index', 'router', 'routes', 'ssr'],
+  external: ['lit', '@lit-labs/ssr/lib/lit-element-renderer.js'],
 });
@@ -4,4 +4,4 @@
  * SPDX-License-Identifier: BSD-3-Clause
  */
 export * from './routes.js';
-export {Router} from './router.js';
+export {Router, type RouterOptions} from './router.js';
@@ -4,10 +4,101 @@
  * SPDX-License-Identifier: BSD-3-Clause
  */
 
-import {Routes} from './routes.js';
+import type {ReactiveControllerHost} from 'lit';
+import {
+  Routes,
+  type BaseRouteConfig,
+  type NavigateOptions,
+  type RouteConfig,
+} from './routes.js';
 
-// We cache the origin since it can't change
-const origin = location.origin || location.protocol + '//' + location.host;
+/**
+ * Options for a `Router`.
+ */
+export interface RouterOptions {
+  /**
+   * A default fallback route which will always be matched if none of the
+   * routes match. Implicitly matches to the path "/*".
+   */
+  fallback?: BaseRouteConfig;
+
+  /**
+   * Whether the router manages the window's scroll position. Defaults to
+   * `false`.
+   *
+   * When enabled, the scroll position of each history entry is saved when
+   * navigating away from it and restored on back/forward navigations. New
+   * navigations scroll to the element identified by the URL's hash, if
+   * there is one, and to the top of the page otherwise.
+   */
+  scrollRestoration?: boolean;
+
+  /**
+   * Whether, and where, to move focus after a navigation, so that keyboard
+   * and screen reader users are taken to the new content. Defaults to
+   * `false`.
+   *
+   * If `true`, focus moves to the first `<h1>` in the shadow root of the
+   * innermost host whose route changed, including the hosts of nested
+   * `Routes`. If none of the changed hosts have one, the innermost changed
+   * host is focused. A function can return the element to focus instead.
+   * Elements that aren't focusable are given `tabindex="-1"`.
+   *
+   * Focus isn't moved for the initial navigation when the router connects.
+   */
+  focus?: boolean | (() => HTMLElement | null | undefined);
+}
+
+// We cache the origin since it can't change. It's read lazily so that this
+// module can be imported on the server, where there's no `location`.
+let origin: string | undefined;
+const getOrigin = () =>
+  (origin ??= location.origin || location.protocol + '//' + location.host);
+
+// The property of history entry states that holds the key the router uses to
+// save the entry's scroll position.
+const entryKeyProperty = 'litRouterKey';
+
+const getEntryKey = (state: unknown) =>
+  (state as {[entryKeyProperty]?: string} | null)?.[entryKeyProperty];
+
+/**
+ * Returns `state` with a new entry key added. Keys can only be added to object
+ * states, so other states are returned as-is.
+ */
+const addEntryKey = (state: unknown) =>
+  typeof state === 'object' && state !== null
+    ? {...state, [entryKeyProperty]: Math.random().toString(36).slice(2)}
+    : state;
+
+/**
+ * Finds the element with `id` in `root` or any shadow root inside it, since
+ * routed content is usually rendered in shadow DOM.
+ */
+const findElementById = (
+  root: Document | ShadowRoot,
+  id: string
+): Element | null => {
+  const element = root.getElementById(id);
+  if (element !== null) {
+    return element;
+  }
+  for (const child of root.querySelectorAll('*')) {
+    if (child.shadowRoot !== null) {
+      const found = findElementById(child.shadowRoot, id);
+      if (found !== null) {
+        return found;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Returns the pathname, search, and hash of `location` as a single string.
+ */
+const getPath = ({pathname, search, hash}: Location | HTMLAnchorElement) =>
+  pathname + search + hash;
 
 /**
  * A root-level router that installs global event listeners to intercept
@@ -20,18 +111,183 @@ const origin = location.origin || location.protocol + '//' + location.host;
  * routes should be configured with the `Routes` class.
  */
 export class Router extends Routes {
+  /*
+   * The URL and history state of the last navigation that wasn't cancelled,
+   * used to restore the location when a navigation is blocked by a leave()
+   * or enter() callback.
+   */
+  private _url = '';
+  private _state: unknown = null;
+
+  /*
+   * Set while we're undoing a cancelled navigation with history.back(), so
+   * that the resulting popstate event isn't treated as a new navigation.
+   */
+  private _restoringURL: string | undefined;
+
+  private readonly _scrollRestoration: boolean;
+  private readonly _focus: NonNullable<RouterOptions['focus']>;
+
+  /*
+   * The scroll positions of history entries that we've navigated away from,
+   * by entry key.
+   */
+  private readonly _scrollPositions = new Map<string, {x: number; y: number}>();
+
+  constructor(
+    host: ReactiveControllerHost & HTMLElement,
+    routes: Array<RouteConfig> = [],
+    options?: RouterOptions
+  ) {
+    super(host, routes, options);
+    this._scrollRestoration = options?.scrollRestoration ?? false;
+    this._focus = options?.focus ?? false;
+  }
+
   override hostConnected() {
     super.hostConnected();
     window.addEventListener('click', this._onClick);
     window.addEventListener('popstate', this._onPopState);
+    if (this._scrollRestoration) {
+      window.history.scrollRestoration = 'manual';
+      // Give the initial entry a key so that its scroll position can be
+      // restored when navigating back to it
+      if (getEntryKey(window.history.state) === undefined) {
+        window.history.replaceState(
+          addEntryKey(window.history.state ?? {}),
+          ''
+        );
+      }
+    }
+    this._url = getPath(window.location);
+    this._state = window.history.state;
     // Kick off routed rendering by going to the current URL
-    this.goto(window.location.pathname);
+    this.goto(this._url);
   }
 
   override hostDisconnected() {
     super.hostDisconnected();
     window.removeEventListener('click', this._onClick);
     window.removeEventListener('popstate', this._onPopState);
+    if (this._scrollRestoration) {
+      window.history.scrollRestoration = 'auto';
+    }
+  }
+
+  /**
+   * Navigates the page to `url`, adding a new entry to the session history
+   * (or replacing the current one if `options.replace` is true), then runs
+   * the new URL through this router and its child routes.
+   *
+   * Relative URLs are resolved against the current route with `link()`.
+   *
+   * If the navigation is cancelled by a `leave()` or `enter()` callback, the
+   * history entry is removed again and the returned Promise resolves to
+   * `false`.
+   */
+  override async navigate(url: string, options?: NavigateOptions) {
+    url = this.link(url);
+    const state = this._scrollRestoration
+      ? addEntryKey(options?.state ?? {})
+      : options?.state ?? {};
+    this._saveScrollPosition();
+    const versions = this._getRouteVersions();
+    if (options?.replace) {
+      window.history.replaceState(state, '', url);
+    } else {
+      window.history.pushState(state, '', url);
+    }
+    const success = this.goto(url);
+    const navigationId = this._navigationId;
+    if (await success) {
+      this._url = url;
+      this._state = state;
+      await this._afterNavigation(false, versions);
+      return true;
+    }
+    // Only restore the previous location if this navigation was cancelled by
+    // a callback, not superseded by a newer one.
+    if (navigationId === this._navigationId) {
+      if (options?.replace) {
+        window.history.replaceState(this._state, '', this._url);
+      } else {
+        this._restoringURL = this._url;
+        window.history.back();
+      }
+    }
+    return false;
+  }
+
+  /**
+   * A Router is the top-level routes controller, so during a server render
+   * it's navigated to the URL of the request being rendered.
+   *
+   * @internal
+   */
+  override _$serverConnect(_ancestors: Iterable<object>, url: string) {
+    return this.goto(url);
+  }
+
+  /**
+   * Saves the scroll position of the current history entry, before
+   * navigating away from it.
+   */
+  private _saveScrollPosition() {
+    const key = getEntryKey(this._state);
+    if (this._scrollRestoration && key !== undefined) {
+      this._scrollPositions.set(key, {x: window.scrollX, y: window.scrollY});
+    }
+  }
+
+  /**
+   * Updates the scroll position and focus once the host and nested routes
+   * have rendered the result of a navigation.
+   *
+   * @param traversal Whether the navigation was a back/forward navigation,
+   *     which restores the saved scroll position of the new entry.
+   * @param versions The route versions from before the navigation.
+   */
+  private async _afterNavigation(
+    traversal: boolean,
+    versions: Map<Routes, number>
+  ) {
+    // The hash target and the content to focus may be rendered by nested
+    // routes, so wait for them too
+    const changedHosts = await this._getChangedHosts(versions);
+    if (this._scrollRestoration) {
+      const key = getEntryKey(this._state);
+      const position =
+        traversal && key !== undefined
+          ? this._scrollPositions.get(key)
+          : undefined;
+      const hash = decodeURIComponent(window.location.hash.substring(1));
+      const target =
+        hash === '' ? null : findElementById(window.document, hash);
+      if (position !== undefined) {
+        window.scrollTo(position.x, position.y);
+      } else if (target !== null) {
+        target.scrollIntoView();
+      } else {
+        window.scrollTo(0, 0);
+      }
+    }
+    if (this._focus !== false) {
+      // Innermost first
+      const hosts =
+        changedHosts.length === 0 ? [this._host] : changedHosts.reverse();
+      const target =
+        this._focus === true
+          ? hosts
+              .map((host) => host.shadowRoot?.querySelector('h1'))
+              .find((heading) => heading != null) ?? hosts[0]
+          : this._focus();
+      if (target != null) {
+        if (target.tabIndex < 0 && !target.hasAttribute('tabindex')) {
+          target.setAttribute('tabindex', '-1');
+        }
+        target.focus({preventScroll: true});
+      }
+    }
   }
 
   private _onClick = (e: MouseEvent) => {
@@ -61,18 +317,39 @@ export class Router extends Routes {
     }
 
     const location = window.location;
-    if (anchor.origin !== origin) {
+    if (anchor.origin !== getOrigin()) {
       return;
     }
 
     e.preventDefault();
     if (href !== location.href) {
-      window.history.pushState({}, '', href);
-      this.goto(anchor.pathname);
+      this.navigate(getPath(anchor));
     }
   };
 
-  private _onPopState = (_e: PopStateEvent) => {
-    this.goto(window.location.pathname);
+  private _onPopState = async (_e: PopStateEvent) => {
+    const url = getPath(window.location);
+    if (this._restoringURL !== undefined) {
+      const restoring = this._restoringURL === url;
+      this._restoringURL = undefined;
+      if (restoring) {
+        return;
+      }
+    }
+    const state = window.history.state;
+    this._saveScrollPosition();
+    const versions = this._getRouteVersions();
+    const success = this.goto(url);
+    const navigationId = this._navigationId;
+    if (await success) {
+      this._url = url;
+      this._state = state;
+      await this._afterNavigation(true, versions);
+    } else if (navigationId === this._navigationId) {
+      // The browser has already moved to the new history entry, and we can't
+      // tell which direction it moved in, so we restore the previous location
+      // with a new entry. This discards any forward history.
+      window.history.pushState(this._state, '', this._url);
+    }
   };
 }
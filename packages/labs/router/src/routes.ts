@@ -8,20 +8,179 @@
 
 import type {ReactiveController, ReactiveControllerHost} from 'lit';
 
-export interface BaseRouteConfig {
+/**
+ * The params passed to route callbacks when they aren't typed by a route's
+ * path.
+ */
+export type Params = {[key: string]: string | undefined};
+
+export interface BaseRouteConfig<P = Params> {
   name?: string | undefined;
-  render?: (params: {[key: string]: string | undefined}) => unknown;
-  enter?: (params: {
-    [key: string]: string | undefined;
-  }) => Promise<boolean> | boolean;
+
+  /**
+   * Loads the code needed to render this route, usually with a dynamic
+   * import like `() => import('./my-page.js')`, so that it can be split into
+   * its own bundle.
+   *
+   * `load()` is only called the first time the route is matched, and the
+   * navigation waits for it to complete before calling `enter()` and
+   * `render()`. While it's pending, the Routes controller's `pending`
+   * property is `true`.
+   */
+  load?: () => Promise<unknown>;
+
+  render?: (params: P, searchParams: URLSearchParams) => unknown;
+  enter?: (
+    params: P,
+    searchParams: URLSearchParams
+  ) => Promise<boolean> | boolean;
+
+  /**
+   * Called before navigating away from this route, with the params of the
+   * current match. Returning `false` (or a Promise that resolves to `false`)
+   * cancels the navigation.
+   */
+  leave?: (
+    params: P,
+    searchParams: URLSearchParams
+  ) => Promise<boolean> | boolean;
 }
 
+/**
+ * Converts the string value of a route param, returning `undefined` if the
+ * value is invalid.
+ */
+export type ParamParser<T = unknown> = (value: string) => T | undefined;
+
+/**
+ * Parsers for the params of a route, by param name. A parser is either a
+ * `ParamParser` function or an array of the allowed values of the param.
+ *
+ * If a param is invalid, the route doesn't match, and the URL is matched
+ * against the following routes and the fallback route instead.
+ */
+export type ParamParsers<P extends string = string> = {
+  [K in keyof PathParams<P>]?: ParamParser | ReadonlyArray<string>;
+};
+
+/**
+ * Parses a param as a decimal number, like `42`, `-1`, or `1.5`. Other
+ * params are invalid, including ones that `Number()` accepts, like
+ * `Infinity`, `0x10`, and `1e3`.
+ */
+export const numberParam: ParamParser<number> = (value) =>
+  /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : undefined;
+
+// Characters that end a param name in a path pattern
+type ParamNameEnd =
+  | '/'
+  | '('
+  | '?'
+  | '*'
+  | '+'
+  | '.'
+  | '-'
+  | '{'
+  | '}'
+  | ':'
+  | '#'
+  | '&'
+  | '=';
+
+// Splits a string that starts with a param name into the name and the rest
+type SplitParamName<
+  S extends string,
+  Name extends string = '',
+> = S extends `${infer C}${infer Rest}`
+  ? C extends ParamNameEnd
+    ? [Name, S]
+    : SplitParamName<Rest, `${Name}${C}`>
+  : [Name, S];
+
+// Removes a regular expression group, like `(\d+)`, from the start of a string
+type SkipRegExp<S extends string> = S extends `(${string})${infer Rest}`
+  ? Rest
+  : S;
+
+// Finds the names of the required and optional (`?` or `*` modifier) params in
+// a path pattern
+type ParamNames<
+  S extends string,
+  Required extends string = never,
+  Optional extends string = never,
+> = S extends `${string}:${infer Rest}`
+  ? SplitParamName<Rest> extends [
+      infer Name extends string,
+      infer After extends string,
+    ]
+    ? SkipRegExp<After> extends `${'?' | '*'}${infer Next}`
+      ? ParamNames<Next, Required, Optional | Name>
+      : ParamNames<SkipRegExp<After>, Required | Name, Optional>
+    : never
+  : [Required, Optional];
+
+type Flatten<T> = {[K in keyof T]: T[K]};
+
+/**
+ * The params matched by a path pattern, such as `{id: string}` for
+ * `/user/:id`. Params with a `?` or `*` modifier are optional. Patterns that
+ * contain `*` or `(` may have unnamed groups, like `/*`, so they also have
+ * numbered params.
+ *
+ * Params in optional `{}` groups aren't detected as optional.
+ */
+export type PathParams<P extends string> = string extends P
+  ? Params
+  : ParamNames<P> extends [
+        infer Required extends string,
+        infer Optional extends string,
+      ]
+    ? Flatten<
+        {[K in Required]: string} & {
+          [K in Optional]?: string | undefined;
+        } & (P extends `${string}${'*' | '('}${string}`
+            ? {[index: number]: string | undefined}
+            : unknown)
+      >
+    : never;
+
+/**
+ * The params passed to the callbacks of a route with path pattern `P`, after
+ * they're converted by `Parsers`.
+ */
+export type RouteParams<
+  P extends string,
+  Parsers extends ParamParsers<P>,
+> = string extends P
+  ? Params
+  : {
+      [K in keyof PathParams<P>]: Parsers[K] extends ParamParser<infer T>
+        ? T | Exclude<PathParams<P>[K], string>
+        : Parsers[K] extends ReadonlyArray<infer T>
+          ? T | Exclude<PathParams<P>[K], string>
+          : PathParams<P>[K];
+    };
+
 /**
  * A RouteConfig that matches against a `path` string. `path` must be a
  * [`URLPattern` compatible pathname pattern](https://developer.mozilla.org/en-US/docs/Web/API/URLPattern/pathname).
+ *
+ * When `P` is a string literal type, as it is for routes created with
+ * `route()`, the params passed to the route's callbacks are typed by the
+ * names in the pattern.
  */
-export interface PathRouteConfig extends BaseRouteConfig {
-  path: string;
+export interface PathRouteConfig<
+  P extends string = string,
+  Parsers extends ParamParsers<P> = ParamParsers<P>,
+> extends BaseRouteConfig<RouteParams<P, Parsers>> {
+  path: P;
+
+  /**
+   * Parsers that validate and convert the string values of params before
+   * they're passed to the route's callbacks, such as `numberParam` or an
+   * array of allowed values.
+   */
+  params?: Parsers;
 }
 
 /**
@@ -29,11 +188,37 @@ export interface PathRouteConfig extends BaseRouteConfig {
  *
  * While `URLPattern` can match against protocols, hostnames, and ports,
  * routes will only be checked for matches if they're part of the current
- * origin. This means that the pattern is limited to checking `pathname` and
- * `search`.
+ * origin. This means that the pattern is limited to checking `pathname`,
+ * `search`, and `hash`.
+ *
+ * Named groups from the `search` and `hash` components are merged into the
+ * params passed to `render()` and `enter()`. Groups from `pathname` take
+ * precedence if the same name is used in more than one component.
  */
 export interface URLPatternRouteConfig extends BaseRouteConfig {
   pattern: URLPattern;
+
+  /**
+   * Parsers that validate and convert the string values of params before
+   * they're passed to the route's callbacks.
+   */
+  params?: ParamParsers;
+}
+
+/**
+ * Options for `navigate()`.
+ */
+export interface NavigateOptions {
+  /**
+   * Whether to replace the current history entry instead of pushing a new
+   * one. Defaults to `false`.
+   */
+  replace?: boolean;
+
+  /**
+   * The state object to store with the history entry.
+   */
+  state?: unknown;
 }
 
 /**
@@ -42,12 +227,71 @@ export interface URLPatternRouteConfig extends BaseRouteConfig {
  */
 export type RouteConfig = PathRouteConfig | URLPatternRouteConfig;
 
+/**
+ * Returns a PathRouteConfig with params typed by its `path`, so that
+ * callbacks are checked against the names in the pattern:
+ *
+ * ```ts
+ * route({
+ *   path: '/user/:id/post/:postId',
+ *   params: {postId: numberParam},
+ *   render: ({id, postId}) =>
+ *     html`<x-post .user=${id} .post=${postId}></x-post>`,
+ * });
+ * ```
+ *
+ * Route config object literals in a `routes` array can't infer their own type,
+ * so without `route()` their params have the untyped `Params` type.
+ */
+export const route = <
+  P extends string,
+  const Parsers extends ParamParsers<P> = {},
+>(
+  config: PathRouteConfig<P, Parsers>
+): RouteConfig =>
+  // The typed callbacks accept narrower params than the untyped RouteConfig
+  // callbacks, but the router only calls them with params matched by `path`
+  config as unknown as RouteConfig;
+
 // A cache of URLPatterns created for PathRouteConfig.
 // Rather than converting all given RoutConfigs to URLPatternRouteConfig, this
 // lets us make `routes` mutable so users can add new PathRouteConfigs
 // dynamically.
 const patternCache = new WeakMap<PathRouteConfig, URLPattern>();
 
+// A cache of the modules loaded by RouteConfig `load` callbacks. This is keyed
+// by the callback so that a module is only loaded once even if the callback is
+// shared between routes.
+const moduleCache = new WeakMap<
+  () => Promise<unknown>,
+  {promise: Promise<unknown>; loaded: boolean}
+>();
+
+const isLoaded = (load: () => Promise<unknown>) =>
+  moduleCache.get(load)?.loaded === true;
+
+const loadModule = (load: () => Promise<unknown>) => {
+  let entry = moduleCache.get(load);
+  if (entry === undefined) {
+    const promise = load().then(
+      (module) => {
+        entry!.loaded = true;
+        return module;
+      },
+      (e: unknown) => {
+        // Don't cache failures so that the load can be retried
+        moduleCache.delete(load);
+        throw e;
+      }
+    );
+    moduleCache.set(load, (entry = {promise, loaded: false}));
+  }
+  return entry.promise;
+};
+
+// A cache of the PathRouteConfigs created for fallback routes.
+const fallbackCache = new WeakMap<BaseRouteConfig, PathRouteConfig>();
+
 const isPatternConfig = (route: RouteConfig): route is URLPatternRouteConfig =>
   (route as URLPatternRouteConfig).pattern !== undefined;
 
@@ -62,12 +306,124 @@ const getPattern = (route: RouteConfig) => {
   return pattern;
 };
 
+// An arbitrary origin used to resolve relative paths with the URL constructor,
+// which only accepts absolute base URLs. Only the path, search, and hash of the
+// result are used.
+const relativeBaseOrigin = 'http://localhost';
+
+/**
+ * The parts of a URL that routes are matched against. `search` and `hash` do
+ * not include their leading `?` and `#` characters, which is the form that
+ * `URLPattern` expects.
+ */
+interface URLParts {
+  pathname: string;
+  search: string;
+  hash: string;
+}
+
+/**
+ * Splits a (possibly relative) URL string into its pathname, search, and hash.
+ *
+ * We can't use the URL constructor here because it would resolve relative
+ * pathnames, like those passed to nested routes, against a base URL.
+ */
+const parseURL = (url: string): URLParts => {
+  let hash = '';
+  let search = '';
+  const hashIndex = url.indexOf('#');
+  if (hashIndex !== -1) {
+    hash = url.substring(hashIndex + 1);
+    url = url.substring(0, hashIndex);
+  }
+  const searchIndex = url.indexOf('?');
+  if (searchIndex !== -1) {
+    search = url.substring(searchIndex + 1);
+    url = url.substring(0, searchIndex);
+  }
+  return {pathname: url, search, hash};
+};
+
+/**
+ * Appends a search and hash to a pathname, omitting empty parts.
+ */
+const formatURL = ({pathname, search, hash}: URLParts) =>
+  pathname + (search && '?' + search) + (hash && '#' + hash);
+
+/**
+ * Returns the params for a pattern match. Only named groups are taken from the
+ * search and hash components, since their numbered groups (including the
+ * implicit wildcards of path-only patterns) would collide with the pathname's
+ * tail group.
+ */
+const getParams = (result: URLPatternResult | null) => {
+  const params: {[key: string]: string | undefined} = {};
+  if (result === null) {
+    return params;
+  }
+  for (const groups of [result.search.groups, result.hash.groups]) {
+    for (const [key, value] of Object.entries(groups)) {
+      if (!/^\d+$/.test(key)) {
+        params[key] = value;
+      }
+    }
+  }
+  return Object.assign(params, result.pathname.groups);
+};
+
+/**
+ * Converts `params` with the route's param parsers, returning `undefined` if
+ * any param is invalid.
+ *
+ * The result is typed as `Params` because that's what the untyped callbacks of
+ * `RouteConfig` accept. Routes with parsers are created with `route()`, which
+ * types their callbacks with the parsed values.
+ */
+const parseParams = (
+  route: RouteConfig,
+  params: Params
+): Params | undefined => {
+  if (route.params === undefined) {
+    return params;
+  }
+  const parsedParams: {[key: string]: unknown} = {...params};
+  for (const [name, parse] of Object.entries(route.params)) {
+    const value = params[name];
+    if (value === undefined || parse === undefined) {
+      continue;
+    }
+    if (typeof parse === 'function') {
+      const parsedValue = parse(value);
+      if (parsedValue === undefined) {
+        return undefined;
+      }
+      parsedParams[name] = parsedValue;
+    } else if (!parse.includes(value)) {
+      return undefined;
+    }
+  }
+  return parsedParams as Params;
+};
+
+// The Routes controllers of each host, in the order they were created. This is
+// used to find parent routes during server rendering.
+const routesForHost = new WeakMap<object, Array<Routes>>();
+
+/**
+ * Returns true if `host` is about to hydrate server-rendered content, which is
+ * the case between connecting and the first update when
+ * `@lit-labs/ssr-client/lit-element-hydrate-support.js` found a declarative
+ * shadow root.
+ */
+const isHydrating = (host: object) =>
+  (host as {_$needsHydration?: boolean})._$needsHydration === true;
+
 /**
  * A reactive controller that performs location-based routing using a
  * configuration of URL patterns and associated render callbacks.
  */
 export class Routes implements ReactiveController {
-  private readonly _host: ReactiveControllerHost & HTMLElement;
+  protected readonly _host: ReactiveControllerHost & HTMLElement;
 
   /*
    * The currently installed set of routes in precedence order.
@@ -110,9 +466,34 @@ export class Routes implements ReactiveController {
    */
   private _currentPathname: string | undefined;
   private _currentRoute: RouteConfig | undefined;
-  private _currentParams: {
-    [key: string]: string | undefined;
-  } = {};
+  private _currentParams: Params = {};
+  // The current params, converted by the current route's param parsers
+  private _currentRouteParams: Params = {};
+  private _currentSearch = '';
+  private _currentHash = '';
+  private _currentSearchParams = new URLSearchParams();
+
+  /*
+   * Incremented on every call to goto(), so that pending navigations can tell
+   * that they've been superseded by a newer one.
+   */
+  protected _navigationId = 0;
+
+  /*
+   * The latest navigation started by goto(), and a count of the changes to
+   * the current route, so that the Router can find the content that a
+   * navigation changed once it's rendered.
+   */
+  private _navigation: Promise<unknown> = Promise.resolve();
+  private _routeVersion = 0;
+
+  /*
+   * The navigation started by the parent routes when this controller
+   * connected, which the parent's pending navigation waits for.
+   */
+  private _connectedNavigation: Promise<boolean> | undefined;
+
+  private _pending = false;
 
   /**
    * Callback to call when this controller is disconnected.
@@ -132,40 +513,123 @@ export class Routes implements ReactiveController {
     (this._host = host).addController(this);
     this.routes = [...routes];
     this.fallback = options?.fallback;
+    let hostRoutes = routesForHost.get(host);
+    if (hostRoutes === undefined) {
+      routesForHost.set(host, (hostRoutes = []));
+    }
+    hostRoutes.push(this);
   }
 
   /**
    * Returns a URL string of the current route, including parent routes,
    * optionally replacing the local path with `pathname`.
+   *
+   * Paths that start with `.` are resolved against the full URL of the current
+   * route, like a relative `href`: `./foo` replaces the last path segment and
+   * `../foo` replaces the last two.
    */
   link(pathname?: string): string {
     if (pathname?.startsWith('/')) {
       return pathname;
     }
     if (pathname?.startsWith('.')) {
-      throw new Error('Not implemented');
+      const url = new URL(pathname, relativeBaseOrigin + this.link());
+      return url.pathname + url.search + url.hash;
     }
     pathname ??= this._currentPathname;
     return (this._parentRoutes?.link() ?? '') + pathname;
   }
 
   /**
-   * Navigates this routes controller to `pathname`.
+   * Navigates the page to `url`.
+   *
+   * Unlike `goto()`, this is a general page navigation API: `url` is resolved
+   * against this controller's current route with `link()`, so nested routes
+   * can navigate with relative paths, and the navigation is performed from
+   * the top-level `Router`, which updates `history` and runs the whole chain
+   * of routes from the root down.
+   *
+   * If there is no `Router` above this controller, only this controller and
+   * its children are navigated, and `history` is not updated.
+   */
+  async navigate(url: string, options?: NavigateOptions): Promise<boolean> {
+    url = this.link(url);
+    if (this._parentRoutes !== undefined) {
+      return this._parentRoutes.navigate(url, options);
+    }
+    return this.goto(url);
+  }
+
+  /**
+   * Navigates this routes controller to `url`.
+   *
+   * `url` is a pathname, optionally followed by a query string and a hash,
+   * such as `/search?q=lit#results`. The search and hash are matched against
+   * routes along with the pathname, and are passed on to child routes.
    *
-   * This does not navigate parent routes, so it isn't (yet) a general page
-   * navigation API. It does navigate child routes if pathname matches a
-   * pattern with a tail wildcard pattern (`/*`).
+   * This does not navigate parent routes or update `history`; use
+   * `navigate()` for general page navigation. It does navigate child routes if
+   * pathname matches a pattern with a tail wildcard pattern (`/*`): once the
+   * host has rendered the matched route, the child routes it renders are
+   * navigated, and the returned Promise resolves when those child navigations
+   * have completed.
+   *
+   * The returned Promise resolves to `false` if the navigation was cancelled,
+   * either by a `leave()` or `enter()` callback returning `false`, or because
+   * `goto()` was called again before it completed.
    */
-  async goto(pathname: string) {
+  async goto(url: string): Promise<boolean> {
+    const startTime = performance.now();
+    const match: Match = {route: undefined, params: {}};
+    this._dispatchEvent(new NavigationStartEvent(this, url));
+    let success: boolean;
+    try {
+      const navigation = this._goto(url, match, startTime);
+      // Errors are thrown to the caller of goto()
+      this._navigation = navigation.catch(() => {});
+      success = await navigation;
+    } catch (error: unknown) {
+      this._dispatchNavigationError(url, match, startTime, error);
+      throw error;
+    }
+    this._dispatchEvent(
+      new NavigationEndEvent(
+        this,
+        url,
+        match,
+        performance.now() - startTime,
+        !success
+      )
+    );
+    return success;
+  }
+
+  /**
+   * Performs a navigation for `goto()`, setting the matched route and params
+   * on `match` for its navigation events.
+   */
+  private async _goto(
+    url: string,
+    match: Match,
+    startTime: number
+  ): Promise<boolean> {
     // TODO (justinfagnani): handle absolute vs relative paths separately.
-    // TODO (justinfagnani): do we need to detect when goto() is called while
-    // a previous goto() call is still pending?
 
-    // TODO (justinfagnani): generalize this to handle query params and
-    // fragments. It currently only handles path names because it's easier to
-    // completely disregard the origin for now. The click handler only does
-    // an in-page navigation if the origin matches anyway.
+    // Each call gets a new navigation id. After each async step we check that
+    // the id is still current, so that when goto() is called while a previous
+    // call is still pending, the previous call is cancelled and can't
+    // overwrite the state set by the newer call.
+    const navigationId = ++this._navigationId;
+    // A newer navigation supersedes any pending route module load
+    this._setPending(false);
+
+    // This only handles the pathname, search, and hash of the URL, since it's
+    // easier to completely disregard the origin for now. The click handler
+    // only does an in-page navigation if the origin matches anyway.
+    const {pathname, search, hash} = parseURL(url);
+    const searchParams = new URLSearchParams(search);
     let tailGroup: string | undefined;
+    let routeChanged = false;
 
     if (this.routes.length === 0 && this.fallback === undefined) {
       // If a routes controller has none of its own routes it acts like it has
@@ -176,69 +640,281 @@ export class Routes implements ReactiveController {
       // Simulate a tail group with the whole pathname
       this._currentParams = {0: tailGroup};
     } else {
-      const route = this._getRoute(pathname);
-      if (route === undefined) {
-        throw new Error(`No route found for ${pathname}`);
+      const routeMatch = this._getMatch(pathname, search, hash);
+      if (routeMatch === undefined) {
+        throw new Error(`No route found for ${url}`);
       }
-      const pattern = getPattern(route);
-      const result = pattern.exec({pathname});
-      const params = result?.pathname.groups ?? {};
-      tailGroup = getTailGroup(params);
-      if (typeof route.enter === 'function') {
-        const success = await route.enter(params);
-        // If enter() returns false, cancel this navigation
-        if (success === false) {
-          return;
+      const {route, result, params} = routeMatch;
+      match.route = route;
+      match.params = params;
+      tailGroup = getTailGroup(result.pathname.groups);
+      const localPathname =
+        tailGroup === undefined
+          ? pathname
+          : pathname.substring(0, pathname.length - tailGroup.length);
+      if (this._currentRoute === undefined && isHydrating(this._host)) {
+        // The server already matched this route and ran its load() and
+        // enter() callbacks before rendering it, so we commit the route
+        // synchronously so that the first render matches the server-rendered
+        // DOM. load() and enter() are still called for their side-effects,
+        // like defining elements, but aren't waited for. Since the route is
+        // already rendered, enter() can't cancel it by returning false, and
+        // errors are reported with a navigation-error event after the
+        // navigation ends.
+        Promise.all([
+          typeof route.load === 'function' ? loadModule(route.load) : undefined,
+          route.enter?.(params, searchParams),
+        ]).catch((error: unknown) =>
+          this._dispatchNavigationError(url, match, startTime, error)
+        );
+      } else {
+        // A navigation only leaves the current route if it matches a
+        // different route, or the same route with a different local pathname.
+        // Changes to just the tail are handled by child routes.
+        if (
+          this._currentRoute !== undefined &&
+          (route !== this._currentRoute ||
+            localPathname !== this._currentPathname)
+        ) {
+          for (const leave of this._getLeaveCallbacks()) {
+            const canLeave = await leave();
+            // If leave() returns false, cancel this navigation
+            if (canLeave === false || navigationId !== this._navigationId) {
+              return false;
+            }
+          }
+        }
+        if (typeof route.load === 'function' && !isLoaded(route.load)) {
+          this._setPending(true);
+          try {
+            await loadModule(route.load);
+          } finally {
+            if (navigationId === this._navigationId) {
+              this._setPending(false);
+            }
+          }
+          if (navigationId !== this._navigationId) {
+            return false;
+          }
+        }
+        if (typeof route.enter === 'function') {
+          const success = await route.enter(params, searchParams);
+          // If enter() returns false, or another navigation was started while
+          // enter() was pending, cancel this navigation
+          if (success === false || navigationId !== this._navigationId) {
+            return false;
+          }
         }
       }
       // Only update route state if the enter handler completes successfully
+      if (
+        route !== this._currentRoute ||
+        localPathname !== this._currentPathname
+      ) {
+        routeChanged = true;
+        this._routeVersion++;
+      }
       this._currentRoute = route;
-      this._currentParams = params;
-      this._currentPathname =
-        tailGroup === undefined
-          ? pathname
-          : pathname.substring(0, pathname.length - tailGroup.length);
+      this._currentParams = getParams(result);
+      this._currentRouteParams = params;
+      this._currentPathname = localPathname;
     }
+    this._currentSearch = search;
+    this._currentHash = hash;
+    this._currentSearchParams = searchParams;
+
+    const previousChildRoutes = [...this._childRoutes];
+    this._host.requestUpdate();
 
     // Propagate the tail match to children
     if (tailGroup !== undefined) {
-      for (const childRoutes of this._childRoutes) {
-        childRoutes.goto(tailGroup);
+      // When the route changed, wait for the host to render it, so that only
+      // the child routes of the new route are navigated. Child routes of the
+      // previous route are disconnected by the render, and child routes that
+      // connect while it renders are navigated when they connect.
+      if (routeChanged && this._host.isConnected) {
+        await this._host.updateComplete;
+        if (navigationId !== this._navigationId) {
+          return false;
+        }
       }
+      const childURL = formatURL({pathname: tailGroup, search, hash});
+      const results = await Promise.all(
+        this._childRoutes.map((childRoutes) =>
+          previousChildRoutes.includes(childRoutes)
+            ? childRoutes.goto(childURL)
+            : childRoutes._connectedNavigation
+        )
+      );
+      return !results.includes(false);
     }
-    this._host.requestUpdate();
+    return true;
+  }
+
+  /**
+   * Returns the route versions of this controller and its child routes, to
+   * pass to `_getChangedHosts()` after a navigation.
+   */
+  protected _getRouteVersions(): Map<Routes, number> {
+    return new Map([
+      [this, this._routeVersion],
+      ...this._childRoutes.flatMap((childRoutes) => [
+        ...childRoutes._getRouteVersions(),
+      ]),
+    ]);
+  }
+
+  /**
+   * Waits for the hosts of this controller and its child routes to render,
+   * including child routes that connect and navigate while they render, and
+   * returns the hosts of the controllers whose route changed since `versions`
+   * were read, outermost first.
+   */
+  protected async _getChangedHosts(
+    versions: Map<Routes, number>
+  ): Promise<Array<HTMLElement>> {
+    await this._navigation;
+    await this._host.updateComplete;
+    const hosts: Array<HTMLElement> =
+      versions.get(this) === this._routeVersion ? [] : [this._host];
+    for (const childRoutes of [...this._childRoutes]) {
+      hosts.push(...(await childRoutes._getChangedHosts(versions)));
+    }
+    return hosts;
+  }
+
+  /**
+   * Returns the leave() callbacks of the current route and of all child
+   * routes, which will be disconnected if this controller's route changes.
+   *
+   * Child routes' callbacks come first. They're called one at a time, and the
+   * first callback that returns false stops the rest from being called, so
+   * that users aren't asked to confirm the same navigation more than once.
+   */
+  private _getLeaveCallbacks(): Array<() => Promise<boolean> | boolean> {
+    const callbacks = this._childRoutes.flatMap((childRoutes) =>
+      childRoutes._getLeaveCallbacks()
+    );
+    const route = this._currentRoute;
+    if (typeof route?.leave === 'function') {
+      const params = this._currentRouteParams;
+      const searchParams = this._currentSearchParams;
+      callbacks.push(() => route.leave!(params, searchParams));
+    }
+    return callbacks;
   }
 
   /**
    * The result of calling the current route's render() callback.
    */
   outlet() {
-    return this._currentRoute?.render?.(this._currentParams);
+    return this._currentRoute?.render?.(
+      this._currentRouteParams,
+      this._currentSearchParams
+    );
   }
 
   /**
-   * The current parsed route parameters.
+   * The current route parameters, as matched from the URL.
+   *
+   * These are the string values of the params. The route's callbacks are
+   * passed the params after they're converted by the route's param parsers.
    */
   get params() {
     return this._currentParams;
   }
 
   /**
-   * Matches `url` against the installed routes and returns the first match.
+   * Whether a navigation is waiting for a route's `load()` callback to
+   * complete.
+   *
+   * The host is updated when this changes, so it can render a loading
+   * indicator while route modules load.
    */
-  private _getRoute(pathname: string): RouteConfig | undefined {
-    const matchedRoute = this.routes.find((r) =>
-      getPattern(r).test({pathname: pathname})
-    );
-    if (matchedRoute || this.fallback === undefined) {
-      return matchedRoute;
+  get pending() {
+    return this._pending;
+  }
+
+  private _setPending(pending: boolean) {
+    if (this._pending !== pending) {
+      this._pending = pending;
+      this._host.requestUpdate();
+    }
+  }
+
+  /**
+   * The parsed query string of the current URL.
+   */
+  get searchParams() {
+    return this._currentSearchParams;
+  }
+
+  /**
+   * Matches `url` against the installed routes and returns the first route
+   * that matches and whose params are valid, with the match result and the
+   * parsed params.
+   */
+  private _getMatch(
+    pathname: string,
+    search: string,
+    hash: string
+  ):
+    | {
+        route: RouteConfig;
+        result: URLPatternResult;
+        params: Params;
+      }
+    | undefined {
+    for (const route of this.routes) {
+      const result = getPattern(route).exec({pathname, search, hash});
+      if (result === null) {
+        continue;
+      }
+      const params = parseParams(route, getParams(result));
+      if (params !== undefined) {
+        return {route, result, params};
+      }
+    }
+    if (this.fallback === undefined) {
+      return undefined;
     }
-    if (this.fallback) {
-      // The fallback route behaves like it has a "/*" path. This is hidden from
-      // the public API but is added here to return a valid RouteConfig.
-      return {...this.fallback, path: '/*'};
+    // The fallback route behaves like it has a "/*" path. This is hidden from
+    // the public API but is added here to return a valid RouteConfig. The
+    // RouteConfig is cached so that navigations within the fallback route
+    // aren't treated as leaving it.
+    let fallbackRoute = fallbackCache.get(this.fallback);
+    if (fallbackRoute === undefined) {
+      fallbackCache.set(
+        this.fallback,
+        (fallbackRoute = {...this.fallback, path: '/*'})
+      );
+    }
+    const result = getPattern(fallbackRoute).exec({pathname, search, hash})!;
+    return {route: fallbackRoute, result, params: getParams(result)};
+  }
+
+  private _dispatchEvent(event: Event) {
+    // The DOM shim used for server rendering doesn't implement events
+    if (typeof this._host.dispatchEvent === 'function') {
+      this._host.dispatchEvent(event);
     }
-    return undefined;
+  }
+
+  private _dispatchNavigationError(
+    url: string,
+    match: Match,
+    startTime: number,
+    error: unknown
+  ) {
+    this._dispatchEvent(
+      new NavigationErrorEvent(
+        this,
+        url,
+        match,
+        performance.now() - startTime,
+        error
+      )
+    );
   }
 
   hostConnected() {
@@ -280,11 +956,80 @@ export class Routes implements ReactiveController {
       );
     };
 
-    const tailGroup = getTailGroup(this._currentParams);
-    if (tailGroup !== undefined) {
-      childRoutes.goto(tailGroup);
+    const tailURL = this._getTailURL();
+    if (tailURL !== undefined) {
+      childRoutes._connectedNavigation = childRoutes.goto(tailURL);
     }
   };
+
+  /**
+   * Returns the URL to pass on to child routes: the tail match of the current
+   * route, with the current search and hash.
+   */
+  private _getTailURL() {
+    const tailGroup = getTailGroup(this._currentParams);
+    return tailGroup === undefined
+      ? undefined
+      : formatURL({
+          pathname: tailGroup,
+          search: this._currentSearch,
+          hash: this._currentHash,
+        });
+  }
+
+  /**
+   * Connects this controller to its parent routes and navigates it for a
+   * server render, where `hostConnected()` isn't called and the
+   * `lit-routes-connected` event can't propagate.
+   *
+   * The parent is the first Routes controller of the nearest host in
+   * `ancestors`, which is the same controller that would handle the event in
+   * the browser. Controllers without a parent aren't navigated, since on the
+   * client they'd only be navigated by an explicit call to `goto()`.
+   *
+   * @param ancestors The ancestor host elements of this controller's host,
+   *     nearest first.
+   * @param _url The URL of the request being rendered.
+   * @internal
+   */
+  _$serverConnect(ancestors: Iterable<object>, _url: string) {
+    for (const ancestor of ancestors) {
+      const parentRoutes = routesForHost.get(ancestor)?.[0];
+      if (parentRoutes !== undefined) {
+        this._parentRoutes = parentRoutes;
+        const tailURL = parentRoutes._getTailURL();
+        return tailURL === undefined ? true : this.goto(tailURL);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Resolves the routes of `host` for a server render, including any async
+   * `load()` and `enter()` callbacks, so that `outlet()` renders the matched
+   * route.
+   *
+   * Returns `undefined` if `host` has no Routes controllers, so that
+   * renderers can skip waiting.
+   *
+   * @param host The element being rendered.
+   * @param ancestors The ancestor host elements of `host`, nearest first.
+   * @param url The URL of the request being rendered.
+   * @internal
+   */
+  static _$resolveServerRoutes(
+    host: object,
+    ancestors: Iterable<object>,
+    url: string
+  ): Promise<unknown> | undefined {
+    const routes = routesForHost.get(host);
+    if (routes === undefined) {
+      return undefined;
+    }
+    return Promise.all(
+      routes.map((routes) => routes._$serverConnect(ancestors, url))
+    );
+  }
 }
 
 /**
@@ -320,8 +1065,141 @@ export class RoutesConnectedEvent extends Event {
   }
 }
 
+/**
+ * The route and params matched by a navigation.
+ */
+interface Match {
+  route: RouteConfig | undefined;
+  params: Params;
+}
+
+/**
+ * Fired from the host of a Routes controller when a navigation of the
+ * controller starts, before the URL is matched against its routes.
+ */
+export class NavigationStartEvent extends Event {
+  static readonly eventName = 'navigation-start';
+  readonly routes: Routes;
+  readonly url: string;
+
+  constructor(routes: Routes, url: string) {
+    super(NavigationStartEvent.eventName, {
+      bubbles: true,
+      composed: true,
+      cancelable: false,
+    });
+    this.routes = routes;
+    this.url = url;
+  }
+}
+
+/**
+ * Fired from the host of a Routes controller when a navigation of the
+ * controller and its child routes has completed or was cancelled.
+ */
+export class NavigationEndEvent extends Event {
+  static readonly eventName = 'navigation-end';
+  readonly routes: Routes;
+  readonly url: string;
+
+  /**
+   * The matched route, or `undefined` if the controller has no routes.
+   */
+  readonly route: RouteConfig | undefined;
+
+  /**
+   * The params passed to the route's callbacks.
+   */
+  readonly params: Params;
+
+  /**
+   * The duration of the navigation in milliseconds.
+   */
+  readonly duration: number;
+
+  /**
+   * Whether the navigation was cancelled, by a `leave()` or `enter()` callback
+   * returning `false` or by a newer navigation.
+   */
+  readonly cancelled: boolean;
+
+  constructor(
+    routes: Routes,
+    url: string,
+    match: Match,
+    duration: number,
+    cancelled: boolean
+  ) {
+    super(NavigationEndEvent.eventName, {
+      bubbles: true,
+      composed: true,
+      cancelable: false,
+    });
+    this.routes = routes;
+    this.url = url;
+    this.route = match.route;
+    this.params = match.params;
+    this.duration = duration;
+    this.cancelled = cancelled;
+  }
+}
+
+/**
+ * Fired from the host of a Routes controller when a navigation of the
+ * controller fails, because no route matched the URL or a route callback
+ * threw.
+ */
+export class NavigationErrorEvent extends Event {
+  static readonly eventName = 'navigation-error';
+  readonly routes: Routes;
+  readonly url: string;
+
+  /**
+   * The matched route, or `undefined` if no route matched.
+   */
+  readonly route: RouteConfig | undefined;
+
+  /**
+   * The params of the matched route.
+   */
+  readonly params: Params;
+
+  /**
+   * The duration of the navigation in milliseconds.
+   */
+  readonly duration: number;
+
+  /**
+   * The error that the navigation failed with.
+   */
+  readonly error: unknown;
+
+  constructor(
+    routes: Routes,
+    url: string,
+    match: Match,
+    duration: number,
+    error: unknown
+  ) {
+    super(NavigationErrorEvent.eventName, {
+      bubbles: true,
+      composed: true,
+      cancelable: false,
+    });
+    this.routes = routes;
+    this.url = url;
+    this.route = match.route;
+    this.params = match.params;
+    this.duration = duration;
+    this.error = error;
+  }
+}
+
 declare global {
   interface HTMLElementEventMap {
     [RoutesConnectedEvent.eventName]: RoutesConnectedEvent;
+    [NavigationStartEvent.eventName]: NavigationStartEvent;
+    [NavigationEndEvent.eventName]: NavigationEndEvent;
+    [NavigationErrorEvent.eventName]: NavigationErrorEvent;
   }
 }
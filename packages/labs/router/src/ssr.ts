@@ -0,0 +1,66 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {LitElementRenderer} from '@lit-labs/ssr/lib/lit-element-renderer.js';
+import type {RenderInfo} from '@lit-labs/ssr';
+import type {RenderResult} from '@lit-labs/ssr/lib/render-result.js';
+import {Routes} from './routes.js';
+
+/**
+ * Returns an element renderer for `@lit-labs/ssr` that renders LitElements
+ * with their `Router` and `Routes` controllers navigated to `url`.
+ *
+ * Before rendering the shadow root of an element with routes, the renderer
+ * waits for the routes to match, including any async `load()` and `enter()`
+ * callbacks, so that `outlet()` renders the matched route. Nested `Routes`
+ * are connected to the routes of their nearest ancestor host and receive its
+ * tail match, just as they would in the browser.
+ *
+ * Use it in place of the default `LitElementRenderer`:
+ *
+ * ```ts
+ * import {render} from '@lit-labs/ssr';
+ * import {createRouterElementRenderer} from '@lit-labs/router/ssr.js';
+ *
+ * const result = render(html`<my-app></my-app>`, {
+ *   elementRenderers: [createRouterElementRenderer(request.url)],
+ * });
+ * ```
+ *
+ * The result contains Promises when routes are resolved asynchronously, so it
+ * must be consumed with an async API like `collectResult()` or
+ * `RenderResultReadable`.
+ *
+ * @param url The URL of the request. Either a `URL` or a string of the
+ *     pathname, optionally followed by the search and hash.
+ */
+export const createRouterElementRenderer = (
+  url: URL | string
+): typeof LitElementRenderer => {
+  const path =
+    typeof url === 'string' ? url : url.pathname + url.search + url.hash;
+  return class RouterElementRenderer extends LitElementRenderer {
+    override *renderShadow(renderInfo: RenderInfo): RenderResult {
+      // This element's renderer is the last item of the host stack, and the
+      // rest are the hosts of the shadow roots it's rendered into.
+      const ancestors = renderInfo.customElementHostStack
+        .slice(0, -1)
+        .reverse()
+        .map((renderer) => renderer?.element)
+        .filter((element) => element !== undefined) as Array<HTMLElement>;
+      const resolved = Routes._$resolveServerRoutes(
+        this.element,
+        ancestors,
+        path
+      );
+      if (resolved === undefined) {
+        yield* super.renderShadow(renderInfo);
+      } else {
+        yield resolved.then(() => super.renderShadow(renderInfo));
+      }
+    }
+  };
+};
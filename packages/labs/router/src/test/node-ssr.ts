@@ -0,0 +1,138 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+// This file is run by Node from the test:node script to verify that routed
+// apps can be server rendered with createRouterElementRenderer().
+
+import 'urlpattern-polyfill';
+import {html, LitElement} from 'lit';
+import {customElement} from 'lit/decorators.js';
+import {render} from '@lit-labs/ssr';
+import {collectResult} from '@lit-labs/ssr/lib/render-result.js';
+import {Router, Routes} from '@lit-labs/router';
+import {createRouterElementRenderer} from '@lit-labs/router/ssr.js';
+import {test} from 'uvu';
+// eslint-disable-next-line import/extensions
+import * as assert from 'uvu/assert';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+@customElement('test-router-app')
+export class TestRouterApp extends LitElement {
+  private _userName = '';
+
+  private _router = new Router(this, [
+    {path: '/', render: () => html`<p>home</p>`},
+    {
+      path: '/user/:id',
+      enter: async ({id}) => {
+        await delay(10);
+        this._userName = `User ${id}`;
+        return true;
+      },
+      render: () => html`<p>${this._userName}</p>`,
+    },
+    {
+      path: '/lazy',
+      load: async () => {
+        await delay(10);
+        customElements.define('test-lazy-page', TestLazyPage);
+      },
+      render: () => html`<test-lazy-page></test-lazy-page>`,
+    },
+    {
+      path: '/nested/*',
+      render: () => html`<test-nested-routes></test-nested-routes>`,
+    },
+  ]);
+
+  override render() {
+    return html`<main>${this._router.outlet()}</main>`;
+  }
+}
+
+// Only defined by the load() callback of the /lazy route
+class TestLazyPage extends LitElement {
+  override render() {
+    return html`<p>lazy</p>`;
+  }
+}
+
+@customElement('test-nested-routes')
+export class TestNestedRoutes extends LitElement {
+  private _name = '';
+
+  private _routes = new Routes(this, [
+    {path: 'a', render: () => html`<p>nested a</p>`},
+    {
+      path: 'b/:name',
+      enter: async ({name}) => {
+        await delay(10);
+        this._name = name!;
+        return true;
+      },
+      render: () => html`<p>nested ${this._name}</p>`,
+    },
+  ]);
+
+  override render() {
+    return html`<section>${this._routes.outlet()}</section>`;
+  }
+}
+
+/**
+ * Renders the app in order, with its routes navigated to `url`, without the
+ * hydration markers.
+ */
+const renderURL = async (url: string) =>
+  (
+    await collectResult(
+      render(html`<test-router-app></test-router-app>`, {
+        elementRenderers: [createRouterElementRenderer(url)],
+        outOfOrder: false,
+      })
+    )
+  ).replace(/<!--[^]*?-->/g, '');
+
+const shadowRoot = (content: string) =>
+  `<template shadowroot="open" shadowrootmode="open">${content}</template>`;
+
+test('renders the route that matches the URL', async () => {
+  assert.is(
+    await renderURL('/'),
+    `<test-router-app>${shadowRoot('<main><p>home</p></main>')}</test-router-app>`
+  );
+});
+
+test('waits for async enter() callbacks', async () => {
+  assert.match(await renderURL('/user/42'), '<main><p>User 42</p></main>');
+});
+
+test('waits for load() callbacks', async () => {
+  // The element is defined by load(), so it's only rendered if load() is
+  // waited for
+  assert.match(
+    await renderURL('/lazy'),
+    `<main><test-lazy-page defer-hydration>${shadowRoot(
+      '<p>lazy</p>'
+    )}</test-lazy-page></main>`
+  );
+});
+
+test('nested Routes receive the tail match', async () => {
+  assert.match(
+    await renderURL('/nested/a'),
+    `<test-nested-routes defer-hydration>${shadowRoot(
+      '<section><p>nested a</p></section>'
+    )}</test-nested-routes>`
+  );
+  assert.match(
+    await renderURL('/nested/b/ann'),
+    '<section><p>nested ann</p></section>'
+  );
+});
+
+test.run();
@@ -5,8 +5,24 @@
  */
 
 import {assert} from 'chai';
-import type {Test1, Child1, Child2} from './router_test_code.js';
-import type {RouteConfig, PathRouteConfig} from '@lit-labs/router/routes.js';
+import type {
+  Test1,
+  Test2,
+  Test3,
+  Test4,
+  Child1,
+  Child2,
+  Child3,
+  Child4,
+} from './router_test_code.js';
+import type {
+  RouteConfig,
+  PathRouteConfig,
+  NavigationStartEvent,
+  NavigationEndEvent,
+  NavigationErrorEvent,
+} from '@lit-labs/router/routes.js';
+import {numberParam} from '@lit-labs/router/routes.js';
 import {stripExpressionComments} from '@lit-labs/testing';
 
 const isPathRouteConfig = (route: RouteConfig): route is PathRouteConfig =>
@@ -93,6 +109,67 @@ const canTest =
     assert.include(el.shadowRoot!.innerHTML, '<h2>Root</h2>');
   });
 
+  test('Query and hash routing', async () => {
+    await loadTestModule('./router_test.html');
+    const el = container.contentDocument!.createElement(
+      'router-test-1'
+    ) as Test1;
+    const {contentWindow, contentDocument} = container;
+
+    // Set the iframe URL before appending the element
+    contentWindow!.history.pushState({}, '', '/search?q=lit');
+    contentDocument!.body.append(el);
+    await el.updateComplete;
+
+    assert.include(
+      stripExpressionComments(el.shadowRoot!.innerHTML),
+      '<h2>Search: lit</h2>'
+    );
+    assert.equal(el._router.searchParams.get('q'), 'lit');
+
+    await el._router.goto('/tabs#details');
+    await el.updateComplete;
+    assert.include(
+      stripExpressionComments(el.shadowRoot!.innerHTML),
+      '<h2>Tab: details</h2>'
+    );
+    assert.equal(el._router.params.tab, 'details');
+  });
+
+  test('Param parsers convert params and reject invalid ones', async () => {
+    await loadTestModule('./router_test.html');
+    const el = container.contentDocument!.createElement(
+      'router-test-1'
+    ) as Test1;
+    const {contentWindow, contentDocument} = container;
+
+    // Set the iframe URL before appending the element
+    contentWindow!.history.pushState({}, '', '/post/41/comments');
+    contentDocument!.body.append(el);
+    await el.updateComplete;
+    assert.include(
+      stripExpressionComments(el.shadowRoot!.innerHTML),
+      '<h2>Post: 42 COMMENTS</h2>'
+    );
+    // The params property has the unparsed values
+    assert.deepEqual(el._router.params, {id: '41', view: 'comments'});
+
+    // Invalid params fall through to the fallback route
+    await el._router.goto('/post/abc/comments');
+    await el.updateComplete;
+    assert.include(
+      stripExpressionComments(el.shadowRoot!.innerHTML),
+      '<h2>Not Found</h2>'
+    );
+
+    await el._router.goto('/post/1/shares');
+    await el.updateComplete;
+    assert.include(
+      stripExpressionComments(el.shadowRoot!.innerHTML),
+      '<h2>Not Found</h2>'
+    );
+  });
+
   test('Nested routing', async () => {
     await loadTestModule('./router_test.html');
     const el = container.contentDocument!.createElement(
@@ -147,6 +224,45 @@ const canTest =
     );
   });
 
+  test('Only the child routes of the new route are navigated', async () => {
+    await loadTestModule('./router_test.html');
+    const el = container.contentDocument!.createElement(
+      'router-test-1'
+    ) as Test1;
+    const {contentWindow, contentDocument} = container;
+    const errors: Array<NavigationErrorEvent> = [];
+    el.addEventListener('navigation-error', (e) => errors.push(e));
+
+    contentWindow!.history.pushState({}, '', '/child1/abc');
+    contentDocument!.body.append(el);
+    await el.updateComplete;
+
+    // child-1 has no route for the tail, so it would throw if it was
+    // navigated before being replaced by child-4
+    assert.isTrue(await el._router.navigate('/child4/x/y'));
+    const child4 = el.shadowRoot!.querySelector('child-4') as Child4;
+    await child4.updateComplete;
+    assert.equal(contentWindow!.location.pathname, '/child4/x/y');
+    assert.include(
+      stripExpressionComments(child4.shadowRoot!.innerHTML),
+      '<h3>Child 4: x y</h3>'
+    );
+
+    // child-4 would cancel the navigation, and roll back the history entry,
+    // if it was navigated before being replaced by child-1
+    const historyLength = contentWindow!.history.length;
+    assert.isTrue(await el._router.navigate('/child1/def'));
+    const child1 = el.shadowRoot!.querySelector('child-1') as Child1;
+    await child1.updateComplete;
+    assert.equal(contentWindow!.location.pathname, '/child1/def');
+    assert.equal(contentWindow!.history.length, historyLength + 1);
+    assert.include(
+      stripExpressionComments(child1.shadowRoot!.innerHTML),
+      '<h3>Child 1: def</h3>'
+    );
+    assert.deepEqual(errors, []);
+  });
+
   test('Fallback and dynamic routes', async () => {
     // This tests that we can install routes asynchronously from within a
     // fallback route handler. This is the kind of flow we might need in
@@ -254,4 +370,367 @@ const canTest =
       '/local_absolute_path'
     );
   });
+
+  test('link() resolves paths relative to the current route', async () => {
+    await loadTestModule('./router_test.html');
+    const el = container.contentDocument!.createElement(
+      'router-test-1'
+    ) as Test1;
+    const {contentWindow, contentDocument} = container;
+
+    // Set the iframe URL before appending the element
+    contentWindow!.history.pushState({}, '', '/child1/def');
+    contentDocument!.body.append(el);
+    await el.updateComplete;
+    const child1 = el.shadowRoot!.querySelector('child-1') as Child1;
+    await child1.updateComplete;
+
+    assert.equal(child1._routes.link('./ghi'), '/child1/ghi');
+    assert.equal(child1._routes.link('./ghi?x=1#y'), '/child1/ghi?x=1#y');
+    assert.equal(child1._routes.link('../child2/xyz'), '/child2/xyz');
+  });
+
+  test('navigate() from a child route updates history', async () => {
+    await loadTestModule('./router_test.html');
+    const el = container.contentDocument!.createElement(
+      'router-test-1'
+    ) as Test1;
+    const {contentWindow, contentDocument} = container;
+
+    // Set the iframe URL before appending the element
+    contentWindow!.history.pushState({}, '', '/child1/def');
+    contentDocument!.body.append(el);
+    await el.updateComplete;
+    const child1 = el.shadowRoot!.querySelector('child-1') as Child1;
+    await child1.updateComplete;
+
+    const historyLength = contentWindow!.history.length;
+    await child1._routes.navigate('./ghi', {state: {from: 'test'}});
+    await child1.updateComplete;
+    assert.equal(contentWindow!.location.pathname, '/child1/ghi');
+    assert.equal(contentWindow!.history.state.from, 'test');
+    assert.equal(contentWindow!.history.length, historyLength + 1);
+    assert.include(
+      stripExpressionComments(child1.shadowRoot!.innerHTML),
+      '<h3>Child 1: ghi</h3>'
+    );
+
+    await child1._routes.navigate('jkl', {replace: true});
+    await child1.updateComplete;
+    assert.equal(contentWindow!.location.pathname, '/child1/jkl');
+    assert.equal(contentWindow!.history.length, historyLength + 1);
+    assert.include(
+      stripExpressionComments(child1.shadowRoot!.innerHTML),
+      '<h3>Child 1: jkl</h3>'
+    );
+
+    await child1._routes.navigate('/child2/xyz');
+    await el.updateComplete;
+    const child2 = el.shadowRoot!.querySelector('child-2') as Child2;
+    await child2.updateComplete;
+    assert.equal(contentWindow!.location.pathname, '/child2/xyz');
+    assert.include(
+      stripExpressionComments(child2.shadowRoot!.innerHTML),
+      '<h3>Child 2: xyz</h3>'
+    );
+  });
+
+  test('leave() can cancel a navigation', async () => {
+    await loadTestModule('./router_test.html');
+    const el = container.contentDocument!.createElement(
+      'router-test-1'
+    ) as Test1;
+    const {contentWindow, contentDocument} = container;
+
+    // Set the iframe URL before appending the element
+    contentWindow!.history.pushState({}, '', '/guarded');
+    contentDocument!.body.append(el);
+    await el.updateComplete;
+    assert.include(
+      stripExpressionComments(el.shadowRoot!.innerHTML),
+      '<h2>Guarded</h2>'
+    );
+
+    el.allowLeave = false;
+    const popstate = new Promise<void>((res) => {
+      const listener = () => {
+        contentWindow!.removeEventListener('popstate', listener);
+        res();
+      };
+      contentWindow!.addEventListener('popstate', listener);
+    });
+    assert.isFalse(await el._router.navigate('/test1/abc'));
+    // The Router goes back to the previous history entry
+    await popstate;
+    assert.equal(contentWindow!.location.pathname, '/guarded');
+    await el.updateComplete;
+    assert.include(
+      stripExpressionComments(el.shadowRoot!.innerHTML),
+      '<h2>Guarded</h2>'
+    );
+
+    el.allowLeave = true;
+    assert.isTrue(await el._router.navigate('/test1/abc'));
+    await el.updateComplete;
+    assert.equal(contentWindow!.location.pathname, '/test1/abc');
+    assert.include(
+      stripExpressionComments(el.shadowRoot!.innerHTML),
+      '<h2>Test 1: abc</h2>'
+    );
+  });
+
+  test('A newer goto() cancels a pending one', async () => {
+    await loadTestModule('./router_test.html');
+    const el = container.contentDocument!.createElement(
+      'router-test-1'
+    ) as Test1;
+    const {contentWindow, contentDocument} = container;
+
+    // Set the iframe URL before appending the element
+    contentWindow!.history.pushState({}, '', '/');
+    contentDocument!.body.append(el);
+    await el.updateComplete;
+
+    // The first navigation's enter() takes longer than the second's
+    const first = el._router.goto('/slow/50');
+    const second = el._router.goto('/slow/10');
+    assert.isTrue(await second);
+    assert.isFalse(await first);
+    await el.updateComplete;
+    assert.equal(el._router.params.delay, '10');
+    assert.include(
+      stripExpressionComments(el.shadowRoot!.innerHTML),
+      '<h2>Slow: 10</h2>'
+    );
+  });
+
+  test('load() is awaited and cached', async () => {
+    await loadTestModule('./router_test.html');
+    const el = container.contentDocument!.createElement(
+      'router-test-1'
+    ) as Test1;
+    const {contentWindow, contentDocument} = container;
+
+    // Set the iframe URL before appending the element
+    contentWindow!.history.pushState({}, '', '/');
+    contentDocument!.body.append(el);
+    await el.updateComplete;
+    assert.isFalse(el._router.pending);
+
+    const navigation = el._router.goto('/lazy');
+    assert.isTrue(el._router.pending);
+    assert.isTrue(await navigation);
+    assert.isFalse(el._router.pending);
+    assert.equal(el.loadCount, 1);
+    await el.updateComplete;
+    assert.include(
+      stripExpressionComments(el.shadowRoot!.innerHTML),
+      '<h2>Lazy</h2>'
+    );
+
+    await el._router.goto('/');
+    // The module is cached, so the second navigation doesn't wait on it
+    const secondNavigation = el._router.goto('/lazy');
+    assert.isFalse(el._router.pending);
+    await secondNavigation;
+    assert.equal(el.loadCount, 1);
+  });
+
+  test('Scroll position is reset and restored', async () => {
+    await loadTestModule('./router_test.html');
+    const el = container.contentDocument!.createElement(
+      'router-test-4'
+    ) as Test4;
+    const {contentWindow, contentDocument} = container;
+
+    // Set the iframe URL before appending the element
+    contentWindow!.history.pushState({}, '', '/tall/1');
+    contentDocument!.body.append(el);
+    await el.updateComplete;
+    assert.equal(contentWindow!.history.scrollRestoration, 'manual');
+
+    contentWindow!.scrollTo(0, 1000);
+    await el._router.navigate('/tall/2');
+    assert.equal(contentWindow!.scrollY, 0);
+
+    // Going back restores the scroll position of the previous entry
+    const popstate = new Promise<void>((res) => {
+      const listener = () => {
+        contentWindow!.removeEventListener('popstate', listener);
+        res();
+      };
+      contentWindow!.addEventListener('popstate', listener);
+    });
+    contentWindow!.history.back();
+    await popstate;
+    await el.updateComplete;
+    await new Promise((res) => setTimeout(res));
+    assert.equal(contentWindow!.location.pathname, '/tall/1');
+    assert.equal(contentWindow!.scrollY, 1000);
+
+    // The element identified by the hash is scrolled into view, even when it
+    // is in a shadow root
+    await el._router.navigate('/tall/3#section');
+    const section = el.shadowRoot!.getElementById('section')!;
+    assert.equal(
+      Math.round(contentWindow!.scrollY),
+      Math.round(section.getBoundingClientRect().top + contentWindow!.scrollY)
+    );
+    assert.isAbove(contentWindow!.scrollY, 0);
+  });
+
+  test('Focus moves to the heading after navigating', async () => {
+    await loadTestModule('./router_test.html');
+    const el = container.contentDocument!.createElement(
+      'router-test-2'
+    ) as Test2;
+    const {contentWindow, contentDocument} = container;
+
+    // Set the iframe URL before appending the element
+    contentWindow!.history.pushState({}, '', '/');
+    contentDocument!.body.append(el);
+    await el.updateComplete;
+    // Focus isn't moved for the initial navigation
+    assert.notEqual(contentDocument!.activeElement, el);
+    // Scroll restoration is off by default
+    assert.equal(contentWindow!.history.scrollRestoration, 'auto');
+
+    await el._router.navigate('/page/abc');
+    const heading = el.shadowRoot!.querySelector('h1')!;
+    assert.equal(heading.textContent, 'Page: abc');
+    assert.equal(heading.getAttribute('tabindex'), '-1');
+    assert.equal(contentDocument!.activeElement, el);
+    assert.equal(el.shadowRoot!.activeElement, heading);
+  });
+
+  test('Focus moves to the heading of nested routes', async () => {
+    await loadTestModule('./router_test.html');
+    const el = container.contentDocument!.createElement(
+      'router-test-3'
+    ) as Test3;
+    const {contentWindow, contentDocument} = container;
+
+    contentWindow!.history.pushState({}, '', '/');
+    contentDocument!.body.append(el);
+    await el.updateComplete;
+
+    // The heading of the innermost changed routes is focused
+    await el._router.navigate('/section/a');
+    const child = el.shadowRoot!.querySelector('child-3') as Child3;
+    assert.equal(el.shadowRoot!.activeElement, child);
+    assert.equal(
+      child.shadowRoot!.activeElement,
+      child.shadowRoot!.querySelector('h1')
+    );
+    assert.equal(child.shadowRoot!.activeElement!.textContent, 'Item: a');
+
+    // Only the nested routes change
+    (child.shadowRoot!.activeElement as HTMLElement).blur();
+    assert.notEqual(contentDocument!.activeElement, el);
+    await el._router.navigate('/section/b');
+    assert.equal(el.shadowRoot!.querySelector('child-3'), child);
+    assert.equal(el.shadowRoot!.activeElement, child);
+    assert.equal(child.shadowRoot!.activeElement!.textContent, 'Item: b');
+  });
+
+  test('Navigation events are fired from the host', async () => {
+    await loadTestModule('./router_test.html');
+    const el = container.contentDocument!.createElement(
+      'router-test-1'
+    ) as Test1;
+    const {contentWindow, contentDocument} = container;
+
+    // Set the iframe URL before appending the element
+    contentWindow!.history.pushState({}, '', '/child2/xyz');
+    contentDocument!.body.append(el);
+    await el.updateComplete;
+    const child2 = el.shadowRoot!.querySelector('child-2') as Child2;
+    await child2.updateComplete;
+
+    const events: Array<
+      NavigationStartEvent | NavigationEndEvent | NavigationErrorEvent
+    > = [];
+    const listener = (e: Event) => events.push(e as (typeof events)[number]);
+    for (const type of [
+      'navigation-start',
+      'navigation-end',
+      'navigation-error',
+    ]) {
+      el.addEventListener(type, listener);
+    }
+
+    assert.isTrue(await el._router.goto('/test1/abc'));
+    assert.deepEqual(
+      events.map((e) => e.type),
+      ['navigation-start', 'navigation-end']
+    );
+    const [start, end] = events as [NavigationStartEvent, NavigationEndEvent];
+    assert.equal(start.routes, el._router);
+    assert.equal(start.url, '/test1/abc');
+    assert.equal(end.url, '/test1/abc');
+    assert.equal((end.route as PathRouteConfig).path, '/test1/:x');
+    assert.deepEqual(end.params, {x: 'abc'});
+    assert.isAtLeast(end.duration, 0);
+    assert.isFalse(end.cancelled);
+
+    // Cancelled navigations fire navigation-end too
+    events.length = 0;
+    await el._router.goto('/guarded');
+    el.allowLeave = false;
+    assert.isFalse(await el._router.goto('/'));
+    const cancelledEnd = events[events.length - 1] as NavigationEndEvent;
+    assert.equal(cancelledEnd.type, 'navigation-end');
+    assert.equal(cancelledEnd.url, '/');
+    assert.isTrue(cancelledEnd.cancelled);
+    el.allowLeave = true;
+
+    // Events from nested routes are fired from their own host, and bubble
+    await el._router.goto('/child2/xyz');
+    await el.updateComplete;
+    const child = el.shadowRoot!.querySelector('child-2') as Child2;
+    events.length = 0;
+    let error: unknown;
+    try {
+      await child._routes.goto('/not/found');
+    } catch (e) {
+      error = e;
+    }
+    assert.instanceOf(error, Error);
+    assert.deepEqual(
+      events.map((e) => e.type),
+      ['navigation-start', 'navigation-error']
+    );
+    const errorEvent = events[1] as NavigationErrorEvent;
+    assert.equal(errorEvent.routes, child._routes);
+    assert.equal(errorEvent.target, child);
+    assert.equal(errorEvent.error, error);
+    assert.isUndefined(errorEvent.route);
+  });
+});
+
+suite('numberParam', () => {
+  test('parses decimal numbers', () => {
+    assert.strictEqual(numberParam('42'), 42);
+    assert.strictEqual(numberParam('-1'), -1);
+    assert.strictEqual(numberParam('1.5'), 1.5);
+    assert.strictEqual(numberParam('007'), 7);
+  });
+
+  test('rejects other values', () => {
+    for (const value of [
+      '',
+      ' 1',
+      'abc',
+      'Infinity',
+      '-Infinity',
+      'NaN',
+      '0x10',
+      '1e3',
+      '1.',
+      '.5',
+      '+1',
+    ]) {
+      assert.isUndefined(numberParam(value), value);
+    }
+  });
 });
@@ -7,10 +7,13 @@
 import {LitElement, html} from 'lit';
 import {customElement} from 'lit/decorators.js';
 import {Router} from '@lit-labs/router/router.js';
-import {Routes} from '@lit-labs/router/routes.js';
+import {Routes, route, numberParam} from '@lit-labs/router/routes.js';
 
 @customElement('router-test-1')
 export class Test1 extends LitElement {
+  allowLeave = true;
+  loadCount = 0;
+
   _router = new Router(
     this,
     [
@@ -18,6 +21,43 @@ export class Test1 extends LitElement {
       {path: '/test1/:x', render: ({x}) => html`<h2>Test 1: ${x}</h2>`},
       {path: '/child1/*', render: () => html`<child-1></child-1>`},
       {path: '/child2/*', render: () => html`<child-2></child-2>`},
+      {path: '/child4/*', render: () => html`<child-4></child-4>`},
+      {
+        path: '/search',
+        render: (_params, searchParams) =>
+          html`<h2>Search: ${searchParams.get('q')}</h2>`,
+      },
+      {
+        pattern: new URLPattern({pathname: '/tabs', hash: ':tab'}),
+        render: ({tab}) => html`<h2>Tab: ${tab}</h2>`,
+      },
+      {
+        path: '/guarded',
+        render: () => html`<h2>Guarded</h2>`,
+        leave: () => this.allowLeave,
+      },
+      {
+        path: '/lazy',
+        render: () => html`<h2>Lazy</h2>`,
+        load: async () => {
+          this.loadCount++;
+          await new Promise((res) => setTimeout(res));
+        },
+      },
+      route({
+        path: '/post/:id/:view',
+        params: {id: numberParam, view: ['comments', 'likes']},
+        render: ({id, view}) =>
+          html`<h2>Post: ${id + 1} ${view.toUpperCase()}</h2>`,
+      }),
+      {
+        path: '/slow/:delay',
+        render: ({delay}) => html`<h2>Slow: ${delay}</h2>`,
+        enter: async ({delay}) => {
+          await new Promise((res) => setTimeout(res, Number(delay)));
+          return true;
+        },
+      },
     ],
     {
       fallback: {
@@ -68,6 +108,63 @@ export class Test1 extends LitElement {
   }
 }
 
+@customElement('router-test-2')
+export class Test2 extends LitElement {
+  _router = new Router(
+    this,
+    [
+      {path: '/', render: () => html`<h1>Home</h1>`},
+      {path: '/page/:x', render: ({x}) => html`<h1>Page: ${x}</h1>`},
+    ],
+    {focus: true}
+  );
+
+  override render() {
+    return this._router.outlet();
+  }
+}
+
+@customElement('router-test-3')
+export class Test3 extends LitElement {
+  _router = new Router(
+    this,
+    [
+      {path: '/', render: () => html`<h1>Home</h1>`},
+      {
+        path: '/section/*',
+        render: () =>
+          html`<h1>Section</h1>
+            <child-3></child-3>`,
+      },
+    ],
+    {focus: true}
+  );
+
+  override render() {
+    return this._router.outlet();
+  }
+}
+
+@customElement('router-test-4')
+export class Test4 extends LitElement {
+  _router = new Router(
+    this,
+    [
+      {
+        path: '/tall/:page',
+        render: ({page}) =>
+          html`<div style="height: 5000px">Tall: ${page}</div>
+            <p id="section" style="height: 5000px">Section</p>`,
+      },
+    ],
+    {scrollRestoration: true}
+  );
+
+  override render() {
+    return this._router.outlet();
+  }
+}
+
 @customElement('child-1')
 export class Child1 extends LitElement {
   _routes = new Routes(this, [
@@ -92,3 +189,38 @@ export class Child2 extends LitElement {
     return this._routes.outlet();
   }
 }
+
+@customElement('child-3')
+export class Child3 extends LitElement {
+  _routes = new Routes(this, [
+    {path: ':id', render: ({id}) => html`<h1>Item: ${id}</h1>`},
+  ]);
+
+  override render() {
+    return this._routes.outlet();
+  }
+}
+
+@customElement('child-4')
+export class Child4 extends LitElement {
+  _routes = new Routes(
+    this,
+    [
+      {
+        path: ':section/:id',
+        render: ({section, id}) => html`<h3>Child 4: ${section} ${id}</h3>`,
+      },
+    ],
+    {
+      fallback: {
+        render: () => html`<h3>Child 4: Not Found</h3>`,
+        // Unknown paths keep the current content
+        enter: () => false,
+      },
+    }
+  );
+
+  override render() {
+    return this._routes.outlet();
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {html} from 'lit';
+import {route, numberParam} from '@lit-labs/router/routes.js';
+
+suite('compilation tests', () => {
+  // this code doesn't need to run, it's tested by tsc
+  if (true as boolean) {
+    return;
+  }
+
+  test('params are typed by the names in the path', () => {
+    route({
+      path: '/user/:id/:tab?',
+      render: ({id, tab}) => {
+        const required: string = id;
+        const optional: string | undefined = tab;
+        return html`${required} ${optional}`;
+      },
+    });
+  });
+
+  test('parsed params have the types of their parsers', () => {
+    route({
+      path: '/post/:id/:view',
+      params: {id: numberParam, view: ['comments', 'likes']},
+      render: ({id, view}) => {
+        const number: number = id;
+        const allowed: 'comments' | 'likes' = view;
+        return html`${number} ${allowed}`;
+      },
+    });
+  });
+
+  test('misspelled params produce type errors', () => {
+    route({
+      path: '/user/:id',
+      // @ts-expect-error misspelled param in a callback
+      render: ({idd}) => html`${idd}`,
+    });
+    route({
+      path: '/user/:id',
+      // @ts-expect-error misspelled param in a parser
+      params: {idd: numberParam},
+      render: () => html``,
+    });
+  });
+
+  test('parsed params of the wrong type produce type errors', () => {
+    route({
+      path: '/post/:id/:view',
+      params: {id: numberParam, view: ['comments', 'likes']},
+      render: ({id, view}) => {
+        // @ts-expect-error numberParam params are numbers
+        const string: string = id;
+        // @ts-expect-error only the allowed values
+        const comments: 'comments' = view;
+        return html`${string} ${comments}`;
+      },
+    });
+  });
+});
@@ -12,6 +12,7 @@ export default litProdConfig({
   entryPoints: [
     'index',
     'lit-element-hydrate-support',
+    'islands',
     'directives/render-light',
   ],
   external: ['lit/directive.js', 'lit/directive-helpers.js'],
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+/**
+ * Partial hydration of server-rendered pages, which hydrates elements that are
+ * marked as islands when their trigger fires.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * The attribute that marks an element as an island, whose value is the
+ * trigger that hydrates it. Keep consistent with `@lit-labs/ssr`, which
+ * renders islands with the `defer-hydration` attribute.
+ */
+export const HYDRATE_ON_ATTR = 'hydrate-on';
+
+/**
+ * When an island hydrates:
+ *
+ * - `visible`: when it's scrolled into the viewport.
+ * - `idle`: when the browser is idle.
+ * - `interaction`: when the user points at, presses, or focuses it. The
+ *   event that triggers hydration isn't dispatched again.
+ * - `never`: never, so it stays server-rendered.
+ *
+ * Islands with any other value hydrate immediately.
+ */
+export type HydrationTrigger = 'visible' | 'idle' | 'interaction' | 'never';
+
+export interface IslandsOptions {
+  /**
+   * Loads the module that defines the element with the given tag name. It's
+   * called once per tag name, when the first island with it hydrates.
+   */
+  load: (tagName: string) => Promise<unknown>;
+
+  /**
+   * The node to find islands in, which defaults to the document. Islands in
+   * shadow roots hydrate with their host instead.
+   */
+  root?: ParentNode;
+
+  /**
+   * Called when loading the module of an island fails, with the error and the
+   * island, which stays server-rendered. The module is loaded again for the
+   * next island with the same tag name, and the island is hydrated if it's
+   * found again by calling `hydrateIslands()` again.
+   *
+   * By default, the error is rethrown asynchronously, so that it's reported
+   * like an uncaught error.
+   */
+  onError?: (error: unknown, island: Element) => void;
+}
+
+const interactionEvents = ['pointerover', 'pointerdown', 'focusin'];
+
+const rethrow = (error: unknown) => {
+  setTimeout(() => {
+    throw error;
+  });
+};
+
+// Islands that have been found, so that finding them again is a no-op
+const foundIslands = new WeakSet<Element>();
+
+let visibilityObserver: IntersectionObserver | undefined;
+const visibilityCallbacks = new WeakMap<Element, () => void>();
+
+const whenVisible = (island: Element, callback: () => void) => {
+  visibilityObserver ??= new IntersectionObserver((entries) => {
+    for (const {isIntersecting, target} of entries) {
+      if (isIntersecting) {
+        visibilityObserver!.unobserve(target);
+        visibilityCallbacks.get(target)?.();
+        visibilityCallbacks.delete(target);
+      }
+    }
+  });
+  visibilityCallbacks.set(island, callback);
+  visibilityObserver.observe(island);
+};
+
+const whenIdle = (callback: () => void) => {
+  if (typeof requestIdleCallback === 'function') {
+    requestIdleCallback(callback);
+  } else {
+    setTimeout(callback);
+  }
+};
+
+const whenInteracted = (island: Element, callback: () => void) => {
+  const listener = () => {
+    for (const type of interactionEvents) {
+      island.removeEventListener(type, listener);
+    }
+    callback();
+  };
+  for (const type of interactionEvents) {
+    island.addEventListener(type, listener, {passive: true});
+  }
+};
+
+/**
+ * Finds the islands in the document, which are elements with a `hydrate-on`
+ * attribute, and hydrates each of them when its trigger fires, by loading
+ * its element's module and removing its `defer-hydration` attribute.
+ *
+ * Islands that are rendered after this is called, for example in content
+ * that's streamed out of order, can be found by calling it again.
+ *
+ * `lit/experimental-hydrate-support.js` must be loaded before the modules
+ * that define the islands.
+ *
+ * @example
+ *
+ * ```ts
+ * hydrateIslands({
+ *   load: (tagName) => import(`./components/${tagName}.js`),
+ * });
+ * ```
+ */
+export const hydrateIslands = ({
+  load,
+  root = document,
+  onError = rethrow,
+}: IslandsOptions) => {
+  const loading = new Map<string, Promise<unknown>>();
+  const hydrateIsland = async (island: Element) => {
+    const tagName = island.localName;
+    let loaded = loading.get(tagName);
+    try {
+      if (loaded === undefined) {
+        loaded = load(tagName);
+        loading.set(tagName, loaded);
+      }
+      await loaded;
+    } catch (e) {
+      // Load the module again for the next island, and let this island be
+      // found again
+      if (loading.get(tagName) === loaded) {
+        loading.delete(tagName);
+      }
+      foundIslands.delete(island);
+      onError(e, island);
+      return;
+    }
+    island.removeAttribute('defer-hydration');
+  };
+  for (const island of root.querySelectorAll(`[${HYDRATE_ON_ATTR}]`)) {
+    if (foundIslands.has(island)) {
+      continue;
+    }
+    foundIslands.add(island);
+    const hydrate = () => void hydrateIsland(island);
+    switch (island.getAttribute(HYDRATE_ON_ATTR) as HydrationTrigger) {
+      case 'visible':
+        whenVisible(island, hydrate);
+        break;
+      case 'idle':
+        whenIdle(hydrate);
+        break;
+      case 'interaction':
+        whenInteracted(island, hydrate);
+        break;
+      case 'never':
+        break;
+      default:
+        hydrate();
+    }
+  }
+};
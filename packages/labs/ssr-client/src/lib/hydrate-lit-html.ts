@@ -9,6 +9,7 @@ import {
   RenderOptions,
   TemplateResult,
   noChange,
+  nothing,
 } from 'lit-html';
 import {_$LH} from 'lit-html/private-ssr-support.js';
 import {
@@ -27,6 +28,11 @@ import {
 // import {Buffer} from 'buffer';
 
 const NODE_MODE = false;
+const DEV_MODE = true;
+
+// The start marker of parts that the server rendered the first value of an
+// async directive into. Keep in sync with @lit-labs/ssr.
+const ASYNC_PART_MARKER = 'lit-part async';
 
 const {TemplateInstance, isIterable, resolveDirective, ChildPart, ElementPart} =
   _$LH;
@@ -34,6 +40,24 @@ const {TemplateInstance, isIterable, resolveDirective, ChildPart, ElementPart} =
 type ChildPart = InstanceType<typeof ChildPart>;
 type TemplateInstance = InstanceType<typeof TemplateInstance>;
 
+/**
+ * Options for `hydrate()`.
+ */
+export interface HydrateOptions extends RenderOptions {
+  /**
+   * When true, a part whose server-rendered content doesn't match the value
+   * being hydrated is rendered on the client instead, replacing the
+   * server-rendered content of only that part, and the rest of the container
+   * is hydrated as usual. In dev mode, a warning describes the mismatch.
+   *
+   * When false (the default), a mismatch throws an error, which in dev mode
+   * describes the mismatch. A value that isn't a TemplateResult hydrated where
+   * the server rendered one is tolerated: it keeps the server-rendered content
+   * until the part is rendered again.
+   */
+  recoverMismatches?: boolean;
+}
+
 /**
  * Information needed to rehydrate a single TemplateResult.
  */
@@ -75,6 +99,16 @@ type ChildPartState =
        * TemplateInstance parts' values for dirty-checking on first render.
        */
       instancePartIndex: number;
+    }
+  | {
+      type: 'mismatch';
+      /** The ChildPart whose server-rendered content doesn't match */
+      part: ChildPart;
+      /**
+       * The value to render on the client instead, before its directive is
+       * resolved
+       */
+      value: unknown;
     };
 
 /**
@@ -121,7 +155,7 @@ type ChildPartState =
 export const hydrate = (
   rootValue: unknown,
   container: Element | DocumentFragment,
-  options: Partial<RenderOptions> = {}
+  options: Partial<HydrateOptions> = {}
 ) => {
   // TODO(kschaaf): Do we need a helper for _$litPart$ ("part for node")?
   // This property needs to remain unminified.
@@ -162,7 +196,13 @@ export const hydrate = (
         );
       }
       // Create a new ChildPart and push it onto the stack
-      currentChildPart = openChildPart(rootValue, marker, stack, options);
+      currentChildPart = openChildPart(
+        rootValue,
+        marker,
+        stack,
+        options,
+        container
+      );
       // Using nullish logical assignment below can cause next.js's swc to move
       // the `openChildPart()` call above behind the nullish check.
       // See https://github.com/lit/lit/issues/4289
@@ -170,16 +210,40 @@ export const hydrate = (
         rootPart = currentChildPart;
       }
       rootPartMarker ??= marker;
+      const state = stack[stack.length - 1];
+      if (markerText === ASYNC_PART_MARKER || state.type === 'mismatch') {
+        // Skip the part's content, which isn't hydrated
+        marker = skipPartContent(walker);
+        currentChildPart = closeChildPart(
+          marker,
+          currentChildPart,
+          stack,
+          container
+        );
+        if (state.type === 'mismatch') {
+          // Replace the server-rendered content by rendering the value on the
+          // client. The part is the value's directive parent, like in a
+          // render, so its directive is kept and resolves the value again.
+          const part = state.part as ChildPart & {_$clear(): void};
+          part._$clear();
+          part._$setValue(state.value, part);
+        }
+      }
     } else if (markerText.startsWith('lit-node')) {
       // Create and hydrate attribute parts into the current ChildPart on the
       // stack
-      createAttributeParts(marker, stack, options);
+      createAttributeParts(marker, stack, options, container);
     } else if (markerText.startsWith('/lit-part')) {
       // Close the current ChildPart, and pop the previous one off the stack
       if (stack.length === 1 && currentChildPart !== rootPart) {
         throw new Error('internal error');
       }
-      currentChildPart = closeChildPart(marker, currentChildPart, stack);
+      currentChildPart = closeChildPart(
+        marker,
+        currentChildPart,
+        stack,
+        container
+      );
     }
   }
   if (rootPart === undefined) {
@@ -202,9 +266,13 @@ const openChildPart = (
   rootValue: unknown,
   marker: Comment,
   stack: Array<ChildPartState>,
-  options: RenderOptions
+  options: Partial<HydrateOptions>,
+  container: Element | DocumentFragment
 ) => {
   let value: unknown;
+  // The index of the part's value in its template's values, or in its parent
+  // iterable, for describing mismatches
+  let partIndex: number | undefined;
   // We know the startNode now. We'll know the endNode when we get to
   // the matching marker and set it in closeChildPart()
   // TODO(kschaaf): Current constructor takes both nodes
@@ -217,15 +285,25 @@ const openChildPart = (
     if (state.type === 'template-instance') {
       part = new ChildPart(marker, null, state.instance, options);
       state.instance._$parts.push(part);
+      partIndex = state.instancePartIndex;
       value = state.result.values[state.instancePartIndex++];
       state.templatePartIndex++;
     } else if (state.type === 'iterable') {
       part = new ChildPart(marker, null, state.part, options);
+      partIndex = (state.part._$committedValue as Array<ChildPart>).length;
       const result = state.iterator.next();
       if (result.done) {
         value = undefined;
         state.done = true;
-        throw new Error('Unhandled shorter than expected iterable');
+        throw new Error(
+          'Unhandled shorter than expected iterable' +
+            (DEV_MODE
+              ? describeMismatch(marker, container, stack, partIndex, {
+                  expected: 'another item',
+                  actual: 'the end of the iterable',
+                })
+              : '')
+        );
       } else {
         value = result.value;
       }
@@ -257,19 +335,50 @@ const openChildPart = (
   // 6. Iterable
   // 7. nothing (handled in fallback)
   // 8. Fallback for everything else
+  const unresolvedValue = value;
   value = resolveDirective(part, value);
+  if (marker.data === ASYNC_PART_MARKER) {
+    // The server rendered the first value of an async directive like
+    // `until()`, which the client doesn't have yet. Keep the server-rendered
+    // content, without hydrating it, until the directive renders a value,
+    // which replaces it.
+    stack.push({part, type: 'leaf'});
+    if (isPrimitive(value)) {
+      // A primitive synchronous value, like the fallback of `until()`, is
+      // committed so that rendering it again keeps the server-rendered content
+      part._$committedValue = value;
+    }
+    return part;
+  }
+  // A marker with a digest means the server rendered a TemplateResult. A
+  // different value hydrated there is tolerated, since the part still renders
+  // the client's values once they change, unless mismatches are recovered.
+  // https://github.com/lit/lit/issues/1434
+  if (
+    options.recoverMismatches &&
+    value !== noChange &&
+    !isTemplateResult(value) &&
+    marker.data !== 'lit-part'
+  ) {
+    if (DEV_MODE) {
+      console.warn(
+        'Hydration value mismatch: Non-TemplateResult rendered to a part ' +
+          'where a TemplateResult was expected. Rendering the part on the ' +
+          'client.' +
+          describeMismatch(marker, container, stack, partIndex, {
+            expected: describeMarker(marker),
+            actual: describeValue(value),
+          })
+      );
+    }
+    stack.push({part, type: 'mismatch', value: unresolvedValue});
+    return part;
+  }
   if (value === noChange) {
     stack.push({part, type: 'leaf'});
   } else if (isPrimitive(value)) {
     stack.push({part, type: 'leaf'});
     part._$committedValue = value;
-    // TODO(kschaaf): We can detect when a primitive is being hydrated on the
-    // client where a TemplateResult was rendered on the server, but we need to
-    // decide on a strategy for what to do next.
-    // https://github.com/lit/lit/issues/1434
-    // if (marker.data !== 'lit-part') {
-    //   throw new Error('Hydration value mismatch: Primitive found where TemplateResult expected');
-    // }
   } else if (isTemplateResult(value)) {
     if (isCompiledTemplateResult(value)) {
       throw new Error('compiled templates are not supported');
@@ -297,11 +406,24 @@ const openChildPart = (
       // generated TemplateInstance
       part._$committedValue = instance;
     } else {
-      // TODO: if this isn't the server-rendered template, do we
-      // need to stop hydrating this subtree? Clear it? Add tests.
-      throw new Error(
-        'Hydration value mismatch: Unexpected TemplateResult rendered to part'
-      );
+      const message =
+        'Hydration value mismatch: Unexpected TemplateResult rendered to part';
+      const description = DEV_MODE
+        ? describeMismatch(marker, container, stack, partIndex, {
+            expected: describeMarker(marker),
+            actual: describeValue(value),
+          })
+        : '';
+      if (!options.recoverMismatches) {
+        throw new Error(message + description);
+      }
+      if (DEV_MODE) {
+        console.warn(
+          message + '. Rendering the part on the client.' + description
+        );
+      }
+      // Stop hydrating the part, and render the value on the client instead
+      stack.push({part, type: 'mismatch', value: unresolvedValue});
     }
   } else if (isIterable(value)) {
     // currentChildPart.value will contain an array of ChildParts
@@ -324,10 +446,28 @@ const openChildPart = (
   return part;
 };
 
+/**
+ * Moves `walker` past the content of the part whose start marker it's on, and
+ * returns the part's end marker.
+ */
+const skipPartContent = (walker: TreeWalker) => {
+  let depth = 0;
+  let marker: Comment | null;
+  while ((marker = walker.nextNode() as Comment | null) !== null) {
+    if (marker.data.startsWith('lit-part')) {
+      depth++;
+    } else if (marker.data.startsWith('/lit-part') && depth-- === 0) {
+      return marker;
+    }
+  }
+  throw new Error('unbalanced part marker');
+};
+
 const closeChildPart = (
   marker: Comment,
   part: ChildPart | undefined,
-  stack: Array<ChildPartState>
+  stack: Array<ChildPartState>,
+  container: Element | DocumentFragment
 ): ChildPart | undefined => {
   if (part === undefined) {
     throw new Error('unbalanced part marker');
@@ -339,7 +479,18 @@ const closeChildPart = (
 
   if (currentState.type === 'iterable') {
     if (!currentState.iterator.next().done) {
-      throw new Error('unexpected longer than expected iterable');
+      throw new Error(
+        'unexpected longer than expected iterable' +
+          (DEV_MODE
+            ? describeMismatch(
+                marker,
+                container,
+                stack,
+                (currentState.part._$committedValue as Array<ChildPart>).length,
+                {expected: 'the end of the iterable', actual: 'another item'}
+              )
+            : '')
+      );
     }
   }
 
@@ -354,7 +505,8 @@ const closeChildPart = (
 const createAttributeParts = (
   comment: Comment,
   stack: Array<ChildPartState>,
-  options: RenderOptions
+  options: RenderOptions,
+  container: Element | DocumentFragment
 ) => {
   // Get the nodeIndex from DOM. We're only using this for an integrity
   // check right now, we might not need it.
@@ -442,11 +594,112 @@ const createAttributeParts = (
     throw new Error(
       `Hydration value mismatch: Primitive found where TemplateResult expected.` +
         ` This usually occurs due to conditional rendering that resulted in a ` +
-        `different value or template being rendered between the server and client.`
+        `different value or template being rendered between the server and client.` +
+        (DEV_MODE
+          ? describeMismatch(comment, container, stack, undefined, {
+              expected: 'a TemplateResult with attribute bindings',
+              actual: 'a part that was hydrated without a template',
+            })
+          : '')
     );
   }
 };
 
+/**
+ * Describes what the server rendered into a part, from its start marker.
+ */
+const describeMarker = (marker: Comment) =>
+  marker.data === 'lit-part'
+    ? 'a non-TemplateResult value'
+    : `a TemplateResult with digest ${marker.data.slice('lit-part '.length)}`;
+
+/**
+ * Describes the type of a value that's hydrated into a part.
+ */
+const describeValue = (value: unknown) => {
+  if (isCompiledTemplateResult(value)) {
+    return 'a compiled TemplateResult';
+  } else if (isTemplateResult(value)) {
+    return `a TemplateResult with digest ${digestForTemplateResult(
+      value as TemplateResult
+    )}`;
+  } else if (value === nothing) {
+    return 'nothing';
+  } else if (value === null || value === undefined) {
+    return String(value);
+  } else if (typeof value === 'string') {
+    return 'a string';
+  } else if (isIterable(value)) {
+    return 'an iterable';
+  }
+  return `a value of type ${typeof value}`;
+};
+
+/**
+ * Describes the path from `container` to `node`, like
+ * `my-element (shadow root) > div:nth-child(2) > <!--lit-part-->`.
+ */
+const describePath = (node: Node, container: Element | DocumentFragment) => {
+  const path = [];
+  for (
+    let current: Node | null = node;
+    current !== null && current !== container;
+    current = current.parentNode
+  ) {
+    if (current.nodeType === Node.COMMENT_NODE) {
+      path.unshift(`<!--${(current as Comment).data}-->`);
+    } else if (current.nodeType === Node.ELEMENT_NODE) {
+      const element = current as Element;
+      const index =
+        element.parentNode === null
+          ? 0
+          : Array.prototype.indexOf.call(element.parentNode.children, element);
+      path.unshift(`${element.localName}:nth-child(${index + 1})`);
+    }
+  }
+  path.unshift(
+    container instanceof ShadowRoot
+      ? `${container.host.localName} (shadow root)`
+      : container instanceof DocumentFragment
+        ? 'DocumentFragment'
+        : container.localName
+  );
+  return path.join(' > ');
+};
+
+/**
+ * Describes a hydration mismatch for dev mode errors and warnings: the
+ * template that contains the part, the index of the part's value, what the
+ * server rendered into it and what's being hydrated, and where it is.
+ */
+const describeMismatch = (
+  marker: Comment,
+  container: Element | DocumentFragment,
+  stack: Array<ChildPartState>,
+  partIndex: number | undefined,
+  {expected, actual}: {expected: string; actual: string}
+) => {
+  let template: TemplateResult | undefined;
+  for (let i = stack.length - 1; i >= 0 && template === undefined; i--) {
+    const state = stack[i];
+    if (state.type === 'template-instance') {
+      // Compiled templates aren't hydrated, so this has strings
+      template = state.result as TemplateResult;
+    }
+  }
+  return (
+    `\n  Template: ${
+      template === undefined
+        ? '(root part)'
+        : 'html`' + template.strings.join('${...}') + '`'
+    }` +
+    `\n  Part index: ${partIndex ?? '(none)'}` +
+    `\n  Expected (server): ${expected}` +
+    `\n  Actual (client): ${actual}` +
+    `\n  DOM path: ${describePath(marker, container)}`
+  );
+};
+
 // Number of 32 bit elements to use to create template digests
 const digestSize = 2;
 // We need to specify a digest to use across rendering environments. This is a
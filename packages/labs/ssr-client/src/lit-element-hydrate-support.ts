@@ -11,6 +11,8 @@
  */
 
 import type {PropertyValues} from '@lit/reactive-element';
+import {adoptStyles} from '@lit/reactive-element/css-tag.js';
+import type {CSSResultOrNative} from '@lit/reactive-element/css-tag.js';
 import {render, RenderOptions} from 'lit-html';
 import {hydrate} from './lib/hydrate-lit-html.js';
 
@@ -28,6 +30,10 @@ interface PatchableLitElement extends HTMLElement {
   _$needsHydration: boolean;
 }
 
+interface PatchableLitElementConstructor {
+  elementStyles: Array<CSSResultOrNative>;
+}
+
 globalThis.litElementHydrateSupport = ({
   LitElement,
 }: {
@@ -79,6 +85,18 @@ globalThis.litElementHydrateSupport = ({
   LitElement.prototype.createRenderRoot = function (this: PatchableLitElement) {
     if (this.shadowRoot) {
       this._$needsHydration = true;
+      // Styles that were deduplicated on the server are only rendered in a
+      // `<style>` in the shadow root of an element class's first instance.
+      // Other instances adopt them with a `<lit-ssr-styles>` element. Adopt
+      // the element's own styles instead, which also covers the case where
+      // that element wasn't defined.
+      if (this.shadowRoot.firstChild?.nodeName !== 'STYLE') {
+        adoptStyles(
+          this.shadowRoot,
+          (this.constructor as unknown as PatchableLitElementConstructor)
+            .elementStyles
+        );
+      }
       return this.shadowRoot;
     } else {
       return createRenderRoot.call(this);
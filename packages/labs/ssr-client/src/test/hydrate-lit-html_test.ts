@@ -0,0 +1,132 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {html, render, ReactiveElement} from 'lit';
+import {hydrate, digestForTemplateResult} from '@lit-labs/ssr-client';
+import {assert} from 'chai';
+
+// Note, since tests are not built with production support, detect DEV_MODE
+// by checking if warning API is available.
+const DEV_MODE = !!ReactiveElement.enableWarning;
+
+const outerTemplate = (content: unknown) => html`<div>${content}</div>`;
+const paragraphTemplate = (text: unknown) => html`<p>${text}</p>`;
+const spanTemplate = (text: unknown) => html`<span>${text}</span>`;
+
+const outerDigest = digestForTemplateResult(outerTemplate(''));
+const paragraphDigest = digestForTemplateResult(paragraphTemplate(''));
+const spanDigest = digestForTemplateResult(spanTemplate(''));
+
+// What @lit-labs/ssr renders for `outerTemplate(paragraphTemplate('a'))`
+const serverHtml =
+  `<!--lit-part ${outerDigest}--><div>` +
+  `<!--lit-part ${paragraphDigest}--><p><!--lit-part-->a<!--/lit-part--></p><!--/lit-part-->` +
+  `</div><!--/lit-part-->`;
+
+suite('hydrate() mismatches', () => {
+  let container: HTMLElement;
+  let warnings: Array<string>;
+  const originalConsoleWarn = console.warn;
+
+  setup(() => {
+    container = document.createElement('div');
+    container.innerHTML = serverHtml;
+    document.body.appendChild(container);
+    warnings = [];
+    console.warn = (message: string) => {
+      if (message.startsWith('Hydration value mismatch')) {
+        warnings.push(message);
+      }
+    };
+  });
+
+  teardown(() => {
+    container.remove();
+    console.warn = originalConsoleWarn;
+  });
+
+  test('TemplateResult mismatches throw an error describing them', () => {
+    let error: Error | undefined;
+    try {
+      hydrate(outerTemplate(spanTemplate('a')), container);
+    } catch (e) {
+      error = e as Error;
+    }
+    const message =
+      'Hydration value mismatch: Unexpected TemplateResult rendered to part';
+    if (DEV_MODE) {
+      assert.equal(
+        error?.message,
+        message +
+          '\n  Template: html`<div>${...}</div>`' +
+          '\n  Part index: 0' +
+          `\n  Expected (server): a TemplateResult with digest ${paragraphDigest}` +
+          `\n  Actual (client): a TemplateResult with digest ${spanDigest}` +
+          `\n  DOM path: div > div:nth-child(1) > <!--lit-part ${paragraphDigest}-->`
+      );
+    } else {
+      // The description is compiled out
+      assert.equal(error?.message, message);
+    }
+  });
+
+  test('primitives hydrated where a TemplateResult was rendered are tolerated', () => {
+    hydrate(outerTemplate('a'), container);
+    assert.deepEqual(warnings, []);
+    // The server-rendered content is kept
+    assert.equal(container.querySelector('p')?.textContent, 'a');
+  });
+
+  test('recoverMismatches renders mismatched parts on the client', () => {
+    const div = container.querySelector('div');
+    hydrate(outerTemplate(spanTemplate('a')), container, {
+      recoverMismatches: true,
+    });
+    if (DEV_MODE) {
+      assert.equal(warnings.length, 1);
+      assert.include(
+        warnings[0],
+        'Unexpected TemplateResult rendered to part. Rendering the part on the client.' +
+          '\n  Template: html`<div>${...}</div>`'
+      );
+    } else {
+      assert.deepEqual(warnings, []);
+    }
+    // Only the mismatched part is replaced
+    assert.equal(container.querySelector('div'), div);
+    assert.isNull(container.querySelector('p'));
+    const span = container.querySelector('span');
+    assert.equal(span?.textContent, 'a');
+
+    render(outerTemplate(spanTemplate('b')), container);
+    assert.equal(container.querySelector('div'), div);
+    assert.equal(container.querySelector('span'), span);
+    assert.equal(span?.textContent, 'b');
+  });
+
+  test('recoverMismatches renders primitives on the client', () => {
+    hydrate(outerTemplate('a'), container, {recoverMismatches: true});
+    if (DEV_MODE) {
+      assert.deepEqual(warnings, [
+        'Hydration value mismatch: Non-TemplateResult rendered to a part ' +
+          'where a TemplateResult was expected. Rendering the part on the ' +
+          'client.' +
+          '\n  Template: html`<div>${...}</div>`' +
+          '\n  Part index: 0' +
+          `\n  Expected (server): a TemplateResult with digest ${paragraphDigest}` +
+          '\n  Actual (client): a string' +
+          `\n  DOM path: div > div:nth-child(1) > <!--lit-part ${paragraphDigest}-->`,
+      ]);
+    } else {
+      assert.deepEqual(warnings, []);
+    }
+    assert.isNull(container.querySelector('p'));
+    assert.equal(container.querySelector('div')?.textContent, 'a');
+
+    render(outerTemplate('b'), container);
+    assert.equal(container.querySelector('div')?.textContent, 'b');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {hydrateIslands} from '@lit-labs/ssr-client/islands.js';
+import {assert} from 'chai';
+
+const nextFrame = () =>
+  new Promise((resolve) => requestAnimationFrame(resolve));
+
+// IntersectionObserver callbacks and idle callbacks run after a frame, and
+// Firefox also needs a task
+const triggersComplete = async () => {
+  await nextFrame();
+  await nextFrame();
+  await new Promise((resolve) => setTimeout(resolve));
+};
+
+suite('hydrateIslands', () => {
+  let container: HTMLElement;
+  let loaded: Array<string>;
+  const load = async (tagName: string) => {
+    loaded.push(tagName);
+  };
+
+  const renderIsland = (tagName: string, trigger: string) => {
+    const island = document.createElement(tagName);
+    island.setAttribute('hydrate-on', trigger);
+    island.setAttribute('defer-hydration', '');
+    island.textContent = tagName;
+    container.appendChild(island);
+    return island;
+  };
+
+  const isHydrated = (island: Element) =>
+    !island.hasAttribute('defer-hydration');
+
+  setup(() => {
+    loaded = [];
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  teardown(() => {
+    container.remove();
+  });
+
+  test('islands without a trigger hydrate immediately', async () => {
+    const island = renderIsland('test-immediate-island', '');
+    hydrateIslands({load, root: container});
+    assert.deepEqual(loaded, ['test-immediate-island']);
+    await triggersComplete();
+    assert.isTrue(isHydrated(island));
+  });
+
+  test('visible islands hydrate when they are scrolled into view', async () => {
+    const island = renderIsland('test-visible-island', 'visible');
+    island.style.position = 'absolute';
+    island.style.top = '-10000px';
+    hydrateIslands({load, root: container});
+    await triggersComplete();
+    assert.deepEqual(loaded, []);
+    assert.isFalse(isHydrated(island));
+
+    island.style.top = '0px';
+    await triggersComplete();
+    assert.deepEqual(loaded, ['test-visible-island']);
+    assert.isTrue(isHydrated(island));
+  });
+
+  test('idle islands hydrate when the browser is idle', async () => {
+    const island = renderIsland('test-idle-island', 'idle');
+    hydrateIslands({load, root: container});
+    assert.deepEqual(loaded, []);
+    assert.isFalse(isHydrated(island));
+
+    await new Promise((resolve) =>
+      typeof requestIdleCallback === 'function'
+        ? requestIdleCallback(resolve)
+        : setTimeout(resolve)
+    );
+    await triggersComplete();
+    assert.deepEqual(loaded, ['test-idle-island']);
+    assert.isTrue(isHydrated(island));
+  });
+
+  test('interaction islands hydrate when they are interacted with', async () => {
+    const island = renderIsland('test-interaction-island', 'interaction');
+    hydrateIslands({load, root: container});
+    await triggersComplete();
+    assert.deepEqual(loaded, []);
+    assert.isFalse(isHydrated(island));
+
+    island.dispatchEvent(new Event('pointerdown'));
+    await triggersComplete();
+    assert.deepEqual(loaded, ['test-interaction-island']);
+    assert.isTrue(isHydrated(island));
+
+    // Only the first interaction hydrates
+    island.dispatchEvent(new Event('focusin'));
+    await triggersComplete();
+    assert.deepEqual(loaded, ['test-interaction-island']);
+  });
+
+  test('never islands do not hydrate', async () => {
+    const island = renderIsland('test-never-island', 'never');
+    hydrateIslands({load, root: container});
+    island.dispatchEvent(new Event('pointerdown'));
+    await triggersComplete();
+    assert.deepEqual(loaded, []);
+    assert.isFalse(isHydrated(island));
+  });
+
+  test('modules of islands that failed to load are loaded again', async () => {
+    const island1 = renderIsland('test-failed-island', 'interaction');
+    const island2 = renderIsland('test-failed-island', 'interaction');
+    const errors: Array<[unknown, Element]> = [];
+    let fail = true;
+    hydrateIslands({
+      load: async (tagName) => {
+        loaded.push(tagName);
+        if (fail) {
+          throw new Error('load failed');
+        }
+      },
+      root: container,
+      onError: (error, island) => errors.push([error, island]),
+    });
+
+    island1.dispatchEvent(new Event('pointerdown'));
+    await triggersComplete();
+    assert.equal(errors.length, 1);
+    assert.equal((errors[0][0] as Error).message, 'load failed');
+    assert.equal(errors[0][1], island1);
+    assert.isFalse(isHydrated(island1));
+
+    fail = false;
+    island2.dispatchEvent(new Event('pointerdown'));
+    await triggersComplete();
+    assert.deepEqual(loaded, ['test-failed-island', 'test-failed-island']);
+    assert.isTrue(isHydrated(island2));
+    assert.isFalse(isHydrated(island1));
+
+    // The island that failed is found again
+    hydrateIslands({load, root: container});
+    island1.dispatchEvent(new Event('pointerdown'));
+    await triggersComplete();
+    assert.isTrue(isHydrated(island1));
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {isPrimitive, getDirectiveClass} from 'lit/directive-helpers.js';
+import {UntilDirective} from 'lit/directives/until.js';
+import {AsyncReplaceDirective} from 'lit/directives/async-replace.js';
+import {asyncAppend} from 'lit/directives/async-append.js';
+
+type Mapper = (value: unknown, index: number) => unknown;
+
+// AsyncAppendDirective is only exported as a type, so get the class from a
+// directive result
+const AsyncAppendDirective = getDirectiveClass(
+  asyncAppend({} as AsyncIterable<unknown>)
+);
+
+const isPromise = (value: unknown): value is PromiseLike<unknown> =>
+  !isPrimitive(value) && typeof (value as {then?: unknown}).then === 'function';
+
+/**
+ * Returns true if `value` is the result of a directive that renders values
+ * asynchronously, which are `until()`, `asyncReplace()`, and `asyncAppend()`.
+ */
+export const isAsyncDirectiveResult = (value: unknown) => {
+  const directiveCtor = getDirectiveClass(value);
+  return (
+    directiveCtor === UntilDirective ||
+    directiveCtor === AsyncReplaceDirective ||
+    directiveCtor === AsyncAppendDirective
+  );
+};
+
+/**
+ * Resolves to the first value of `promises` that fulfills before `deadline`,
+ * or undefined if none of them do.
+ */
+const firstFulfilled = (
+  promises: Array<PromiseLike<unknown>>,
+  deadline: number
+) =>
+  new Promise<{value: unknown} | undefined>((resolve) => {
+    let pending = promises.length;
+    const timeout = setTimeout(
+      () => resolve(undefined),
+      Math.max(0, deadline - Date.now())
+    );
+    const settle = (result: {value: unknown} | undefined) => {
+      if (result !== undefined || --pending === 0) {
+        clearTimeout(timeout);
+        resolve(result);
+      }
+    };
+    for (const promise of promises) {
+      Promise.resolve(promise).then(
+        (value) => settle({value}),
+        () => settle(undefined)
+      );
+    }
+  });
+
+/**
+ * Resolves to the first value that the result of an async directive renders,
+ * or undefined if it doesn't render one before `deadline`, in which case it
+ * should be rendered synchronously.
+ *
+ * `until()` renders the first of its Promises that fulfills, ignoring
+ * Promises that come after a non-Promise value, which is rendered
+ * synchronously. `asyncReplace()` and `asyncAppend()` render the first value
+ * of their async iterable, after which the iteration is stopped.
+ */
+export const firstAsyncDirectiveValue = async (
+  value: unknown,
+  deadline: number
+): Promise<{value: unknown} | undefined> => {
+  // The values of a DirectiveResult are internal to lit-html
+  const {values} = value as {values: Array<unknown>};
+  if (getDirectiveClass(value) === UntilDirective) {
+    const syncIndex = values.findIndex((value) => !isPromise(value));
+    const promises = (
+      syncIndex === -1 ? values : values.slice(0, syncIndex)
+    ) as Array<PromiseLike<unknown>>;
+    return promises.length === 0
+      ? undefined
+      : firstFulfilled(promises, deadline);
+  }
+  const [iterable, mapper] = values as [AsyncIterable<unknown>, Mapper?];
+  const iterator = iterable[Symbol.asyncIterator]();
+  const next = await firstFulfilled([iterator.next()], deadline);
+  // Stop the iteration, since the rest of the values are rendered on the
+  // client. Errors are ignored like the errors of `next()`.
+  iterator.return?.().catch(() => {});
+  const result = next?.value as IteratorResult<unknown> | undefined;
+  if (result === undefined || result.done) {
+    return undefined;
+  }
+  const first = mapper === undefined ? result.value : mapper(result.value, 0);
+  // asyncAppend() renders each value in its own part, like an array
+  return {
+    value: getDirectiveClass(value) === AsyncAppendDirective ? [first] : first,
+  };
+};
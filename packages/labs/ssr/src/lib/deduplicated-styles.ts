@@ -0,0 +1,69 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+// The element that adopts a shared stylesheet into its shadow root
+const STYLES_ELEMENT = 'lit-ssr-styles';
+
+/**
+ * Defines `<lit-ssr-styles sheet="id">`, which adopts the shared stylesheet
+ * `id` into the shadow root that it's in, and then removes itself. The first
+ * element for each stylesheet has a `define` attribute, and follows a
+ * `<style>` with the stylesheet's CSS, which styles its own shadow root.
+ *
+ * An element is used instead of a script in each shadow root because scripts
+ * can't find the shadow root that they're in: `document.currentScript` is
+ * null in shadow roots. So this script has to run in the light DOM, before the
+ * shadow roots are parsed. The elements for a stylesheet can be connected
+ * before the element that defines it when content is streamed out of order,
+ * so shadow roots wait for the stylesheet to be defined.
+ */
+const stylesScript = `<script>(()=>{
+document.currentScript?.remove();
+if(customElements.get('${STYLES_ELEMENT}'))return;
+const s={},w={};
+const a=(r,t)=>{r.adoptedStyleSheets=[...r.adoptedStyleSheets,t]};
+customElements.define('${STYLES_ELEMENT}',class extends HTMLElement{connectedCallback(){const i=this.getAttribute('sheet'),r=this.getRootNode(),c=this.hasAttribute('define')?this.previousElementSibling:null;this.remove();if(c){const t=s[i]=new CSSStyleSheet();t.replaceSync(c.textContent);for(const o of w[i]??[])a(o,t);delete w[i]}else if(s[i])a(r,s[i]);else(w[i]??=[]).push(r)}});
+})()</script>`;
+
+// Escapes `</style` so that CSS can't close the `<style>`
+const escapeStyle = (cssText: string) =>
+  cssText.replace(/<\/style/gi, '<\\/style');
+
+/**
+ * The styles of a render whose element styles are deduplicated. The styles of
+ * each element class are rendered once, in a `<style>` in the shadow root of
+ * its first instance, and shared with the shadow roots of its other instances
+ * as a constructed stylesheet.
+ */
+export class DeduplicatedStyles {
+  private _ids = new Map<unknown, number>();
+
+  /**
+   * Renders the script that shares the styles between shadow roots, which
+   * must be rendered in the light DOM before any of the styles.
+   */
+  *renderScript() {
+    yield stylesScript;
+  }
+
+  /**
+   * Renders the styles identified by `key` (usually the element class) into
+   * the shadow root that's being rendered. `cssText` is only called the
+   * first time the styles are rendered.
+   */
+  *render(key: unknown, cssText: () => string) {
+    let id = this._ids.get(key);
+    if (id !== undefined) {
+      yield `<${STYLES_ELEMENT} sheet="${id}"></${STYLES_ELEMENT}>`;
+      return;
+    }
+    id = this._ids.size;
+    this._ids.set(key, id);
+    yield `<style>${escapeStyle(
+      cssText()
+    )}</style><${STYLES_ELEMENT} sheet="${id}" define></${STYLES_ELEMENT}>`;
+  }
+}
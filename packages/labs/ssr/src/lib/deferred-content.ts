@@ -0,0 +1,140 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {collectResult} from './render-result.js';
+import type {RenderResult} from './render-result.js';
+
+type RenderResultIterator = Iterator<string | Promise<RenderResult>>;
+
+interface DeferredEntry {
+  id: number;
+  content: string;
+  // The Promise of this entry, to remove it from the pending entries
+  promise: Promise<DeferredEntry>;
+}
+
+/**
+ * The state of a part whose content may be deferred. Its content is deferred
+ * if it or a part that contains it is deferred.
+ */
+export interface DeferralScope {
+  deferred: boolean;
+  parent: DeferralScope | undefined;
+}
+
+/**
+ * Returns true if the content rendered in `scope` is deferred. This is only
+ * final once the render is done.
+ */
+export const isDeferred = (scope: DeferralScope | undefined): boolean =>
+  scope !== undefined && (scope.deferred || isDeferred(scope.parent));
+
+// The id prefixes of placeholders and of the templates of deferred content
+const PLACEHOLDER_ID_PREFIX = 'lit-placeholder-';
+const CONTENT_ID_PREFIX = 'lit-deferred-';
+
+/**
+ * Defines `$litSwap(id)`, which replaces the placeholder for deferred content
+ * with the content, which is in a `<template>` just before the script that
+ * calls it.
+ *
+ * Placeholders are found in open shadow roots too, since content that's
+ * rendered in a shadow root is deferred in place. If the placeholder isn't in
+ * the document yet, because it's in deferred content that hasn't been swapped
+ * in, the swap is retried after the next swap.
+ *
+ * Declarative shadow roots aren't attached in `<template>` contents, so the
+ * script attaches them before it moves the content into the document. The
+ * scripts and templates remove themselves, so that the document ends up with
+ * the same nodes as when it's rendered in order.
+ */
+const swapScript = `<script>(()=>{
+let q=[];
+const f=(r,i)=>{let e=r.getElementById(i);if(e)return e;for(const n of r.querySelectorAll('*'))if(n.shadowRoot&&(e=f(n.shadowRoot,i)))return e;return null};
+const a=(r)=>{for(const t of r.querySelectorAll('template[shadowrootmode]')){const s=t.parentNode.attachShadow({mode:t.getAttribute('shadowrootmode'),delegatesFocus:t.hasAttribute('shadowrootdelegatesfocus')});a(t.content);s.append(t.content);t.remove()}};
+const w=(i)=>{const p=f(document,'${PLACEHOLDER_ID_PREFIX}'+i);if(!p)return false;const t=document.getElementById('${CONTENT_ID_PREFIX}'+i);a(t.content);p.replaceWith(t.content);t.remove();return true};
+window.$litSwap=(i)=>{document.currentScript.remove();if(!w(i)){q.push(i);return}let l;do{l=q.length;q=q.filter((j)=>!w(j))}while(q.length<l)};
+document.currentScript.remove();
+})()</script>`;
+
+/**
+ * The content of a render that's streamed out of order. Content that waits
+ * for a Promise is replaced with a placeholder, and rendered after the rest of
+ * the render result, in the order that it finishes, along with a script that
+ * swaps it in.
+ */
+export class DeferredContent {
+  private _nextId = 0;
+  private _pending = new Set<Promise<DeferredEntry>>();
+
+  /**
+   * Renders `result`, or a placeholder for it if it waits for a Promise.
+   *
+   * The content is buffered until it's done, so that it can be deferred
+   * instead if it yields a Promise. `result` must not share mutable render
+   * state with the rest of the render, since it keeps rendering while the
+   * rest of the render continues.
+   *
+   * `scope` is marked as deferred if the content is deferred.
+   */
+  *renderDeferrable(result: RenderResult, scope?: DeferralScope): RenderResult {
+    const iterator = result[Symbol.iterator]() as RenderResultIterator;
+    let buffer = '';
+    for (let next = iterator.next(); next.done !== true; ) {
+      const chunk = next.value;
+      if (typeof chunk !== 'string') {
+        if (scope !== undefined) {
+          scope.deferred = true;
+        }
+        yield this._defer(buffer, chunk, iterator);
+        return;
+      }
+      buffer += chunk;
+      next = iterator.next();
+    }
+    yield buffer;
+  }
+
+  private _defer(
+    buffer: string,
+    chunk: Promise<RenderResult>,
+    iterator: RenderResultIterator
+  ) {
+    const id = this._nextId++;
+    const promise: Promise<DeferredEntry> = collectResult(
+      (function* () {
+        yield chunk;
+        yield* {[Symbol.iterator]: () => iterator};
+      })()
+    ).then((rest) => ({id, content: buffer + rest, promise}));
+    // Errors are thrown when the content is flushed. Until then, don't report
+    // them as unhandled.
+    promise.catch(() => {});
+    this._pending.add(promise);
+    return `<template id="${PLACEHOLDER_ID_PREFIX}${id}"></template>`;
+  }
+
+  /**
+   * Renders the deferred content, in the order that it finishes, including
+   * content that's deferred while this is rendered.
+   */
+  *flush(): RenderResult {
+    let needsSwapScript = true;
+    while (this._pending.size > 0) {
+      yield Promise.race(this._pending).then(({id, content, promise}) => {
+        this._pending.delete(promise);
+        const script = needsSwapScript ? swapScript : '';
+        needsSwapScript = false;
+        return [
+          script,
+          `<template id="${CONTENT_ID_PREFIX}${id}">`,
+          content,
+          `</template><script>$litSwap(${id})</script>`,
+        ];
+      });
+    }
+  }
+}
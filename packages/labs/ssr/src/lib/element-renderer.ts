@@ -185,7 +185,7 @@ export abstract class ElementRenderer {
    * The default implementation serializes all attributes on the element
    * instance.
    */
-  *renderAttributes(): RenderResult {
+  *renderAttributes(_renderInfo?: RenderInfo): RenderResult {
     if (this.element !== undefined) {
       const {attributes} = this.element;
       for (
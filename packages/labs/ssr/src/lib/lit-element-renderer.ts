@@ -19,6 +19,26 @@ export type Constructor<T> = {new (): T};
 
 const {attributeToProperty, changedProperties} = _$LE;
 
+/**
+ * The functions that @lit/task adds to hosts to run their `awaitOnServer`
+ * tasks, which resolve to the task's value if it completed.
+ */
+type TaskHost = {
+  _$litTasks$?: Array<() => Promise<{value: unknown} | undefined>>;
+};
+
+/**
+ * An element with a server-only `serverUpdate()` lifecycle method, which can
+ * load data asynchronously before the element renders on the server.
+ */
+type ServerUpdateHost = {
+  serverUpdate?: () => Promise<unknown>;
+};
+
+// The attribute that hosts store their tasks' values in, for the tasks to
+// read when they hydrate. Keep in sync with @lit/task.
+const TASK_VALUES_ATTR = 'hydrate-task-values';
+
 /**
  * ElementRenderer implementation for LitElements
  */
@@ -66,6 +86,15 @@ export class LitElementRenderer extends ElementRenderer {
   }
 
   override connectedCallback() {
+    // Elements with a `serverUpdate()` method update once it resolves, in
+    // `renderAttributes()`
+    if ((this.element as ServerUpdateHost).serverUpdate !== undefined) {
+      return;
+    }
+    this._update();
+  }
+
+  private _update() {
     // Call LitElement's `willUpdate` method.
     // Note, this method is required not to use DOM APIs.
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -84,16 +113,58 @@ export class LitElementRenderer extends ElementRenderer {
     attributeToProperty(this.element as LitElement, name, value);
   }
 
+  override *renderAttributes(renderInfo?: RenderInfo): RenderResult {
+    const element = this.element as LitElement & ServerUpdateHost;
+    const tasks = (element as object as TaskHost)['_$litTasks$'];
+    const hasTasks = tasks !== undefined && tasks.length > 0;
+    if (element.serverUpdate === undefined && !hasTasks) {
+      yield* super.renderAttributes();
+      return;
+    }
+    // The rest of the element waits for the Promise. Unless the render is in
+    // order, the content after the element streams while it waits, and the
+    // element is swapped in once it's done. See `RenderInfo.outOfOrder`.
+    yield (async () => {
+      // Wait for `serverUpdate()` before updating, so that properties it sets
+      // are seen by `willUpdate()`, reflected, and rendered.
+      if (element.serverUpdate !== undefined) {
+        await element.serverUpdate();
+        this._update();
+      }
+      // Wait for the element's tasks so that the serialized values are
+      // included in the attributes, and the shadow root renders the completed
+      // tasks. Static HTML, which isn't hydrated, doesn't need the values.
+      if (hasTasks) {
+        const values = await Promise.all(tasks.map((runTask) => runTask()));
+        if (renderInfo?.hydratable === false) {
+          return super.renderAttributes();
+        }
+        element.setAttribute(
+          TASK_VALUES_ATTR,
+          JSON.stringify(values.map((value) => value ?? null))
+        );
+      }
+      return super.renderAttributes();
+    })();
+  }
+
   override *renderShadow(renderInfo: RenderInfo): RenderResult {
     // Render styles.
     const styles = (this.element.constructor as typeof LitElement)
       .elementStyles;
     if (styles !== undefined && styles.length > 0) {
-      yield '<style>';
-      for (const style of styles) {
-        yield (style as CSSResult).cssText;
+      const {deduplicatedStyles} = renderInfo;
+      if (deduplicatedStyles !== undefined) {
+        yield* deduplicatedStyles.render(this.element.constructor, () =>
+          styles.map((style) => (style as CSSResult).cssText).join('')
+        );
+      } else {
+        yield '<style>';
+        for (const style of styles) {
+          yield (style as CSSResult).cssText;
+        }
+        yield '</style>';
       }
-      yield '</style>';
     }
     // Render template
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
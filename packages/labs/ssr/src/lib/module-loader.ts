@@ -254,6 +254,7 @@ export class ModuleLoader {
     };
     this.cache.set(modulePath, moduleRecord);
     const module = await modulePromise;
+    moduleRecord.module = module;
     // Modules must be fully loaded before linking. Therefore `_loadModule` must
     // also load its dependencies.
     // Reference: https://tc39.es/ecma262/#table-abstract-methods-of-module-records
@@ -269,6 +270,29 @@ export class ModuleLoader {
     };
   }
 
+  /**
+   * Returns the path of the evaluated module that exports `value`, for
+   * example the module that defines a custom element class, or undefined if
+   * no module exports it.
+   *
+   * Modules are loaded after the modules that import them, so if several
+   * modules export `value`, this returns the one that was loaded last, which
+   * is the module that defines it rather than one that re-exports it.
+   */
+  getExportingModule(value: unknown): string | undefined {
+    let exportingModule: string | undefined;
+    for (const {path, module} of this.cache.values()) {
+      if (
+        module !== undefined &&
+        (module as vm.Module).status === 'evaluated' &&
+        Object.values(module.namespace).includes(value)
+      ) {
+        exportingModule = path;
+      }
+    }
+    return exportingModule;
+  }
+
   private async _loadBuiltInModule(specifier: string): Promise<ImportResult> {
     let moduleRecord = this.cache.get(specifier);
     if (moduleRecord !== undefined) {
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {isDeferred} from './deferred-content.js';
+import type {DeferralScope} from './deferred-content.js';
+import type {ModuleLoader} from './module-loader.js';
+import {escapeHtml} from './util/escape-html.js';
+
+/**
+ * A custom element that was rendered, as reported by `RenderManifest`.
+ */
+export interface RenderedElement {
+  tagName: string;
+  /**
+   * The path of the module that defines the element's class, or undefined if
+   * it isn't known.
+   */
+  module: string | undefined;
+  /**
+   * True if every instance of the element was rendered in content that was
+   * streamed out of order, so the element isn't needed until that content is
+   * swapped in.
+   */
+  deferred: boolean;
+}
+
+export interface RenderManifestOptions {
+  /**
+   * The loader of the modules that define the rendered elements, to look up
+   * the module of each element class in.
+   */
+  moduleLoader?: ModuleLoader;
+}
+
+interface ElementRecord {
+  ctor: unknown;
+  scopes: Array<DeferralScope | undefined>;
+}
+
+/**
+ * A report of the custom elements rendered by a render, which servers can use
+ * to send only the element definitions that a page needs.
+ *
+ * Pass a manifest to `render()` in the `manifest` render option, and read its
+ * `elements` once the render result has been consumed:
+ *
+ * ```ts
+ * const manifest = new RenderManifest({moduleLoader});
+ * const html = await collectResult(render(page, {manifest}));
+ * const preloads = renderModulePreloads(manifest, toUrl);
+ * ```
+ */
+export class RenderManifest {
+  private readonly _moduleLoader: ModuleLoader | undefined;
+  private readonly _elements = new Map<string, ElementRecord>();
+
+  constructor(options?: RenderManifestOptions) {
+    this._moduleLoader = options?.moduleLoader;
+  }
+
+  /**
+   * Records an instance of an element that's rendered in `scope`.
+   *
+   * @internal
+   */
+  record(tagName: string, ctor: unknown, scope: DeferralScope | undefined) {
+    let element = this._elements.get(tagName);
+    if (element === undefined) {
+      element = {ctor, scopes: []};
+      this._elements.set(tagName, element);
+    }
+    element.scopes.push(scope);
+  }
+
+  /**
+   * The rendered elements, in the order they were first rendered.
+   *
+   * Whether elements are deferred is only final once the render result has
+   * been consumed.
+   */
+  get elements(): RenderedElement[] {
+    return [...this._elements].map(([tagName, {ctor, scopes}]) => ({
+      tagName,
+      module: this._moduleLoader?.getExportingModule(ctor),
+      deferred: scopes.every(isDeferred),
+    }));
+  }
+}
+
+/**
+ * Renders a `<link rel="modulepreload">` for each module that defines an
+ * element in `manifest`, starting with the modules of elements that aren't
+ * deferred. `toUrl` returns the URL to load a module from, given its path.
+ */
+export const renderModulePreloads = (
+  manifest: RenderManifest,
+  toUrl: (modulePath: string) => string
+) => {
+  const modules = new Set<string>();
+  const elements = manifest.elements;
+  for (const deferred of [false, true]) {
+    for (const element of elements) {
+      if (element.deferred === deferred && element.module !== undefined) {
+        modules.add(element.module);
+      }
+    }
+  }
+  return [...modules]
+    .map(
+      (module) =>
+        `<link rel="modulepreload" href="${escapeHtml(toUrl(module))}">`
+    )
+    .join('');
+};
@@ -45,6 +45,13 @@ import {
 } from './element-renderer.js';
 
 import {escapeHtml} from './util/escape-html.js';
+import type {DeduplicatedStyles} from './deduplicated-styles.js';
+import type {DeferredContent, DeferralScope} from './deferred-content.js';
+import type {RenderManifest} from './render-manifest.js';
+import {
+  firstAsyncDirectiveValue,
+  isAsyncDirectiveResult,
+} from './async-directives.js';
 
 import {parseFragment, parse} from 'parse5';
 import {
@@ -70,6 +77,13 @@ declare module 'parse5/dist/tree-adapters/default.js' {
   }
 }
 
+/**
+ * The attribute that marks an element as an island, which is hydrated by the
+ * `hydrateIslands()` loader of `@lit-labs/ssr-client`. Keep consistent with
+ * `@lit-labs/ssr-client`.
+ */
+const HYDRATE_ON_ATTR = 'hydrate-on';
+
 function ssrResolve(this: Directive, _part: Part, values: unknown[]) {
   // Since the return value may also be a directive result in the case of nested
   // directives, we may need to patch that as well.
@@ -157,6 +171,10 @@ type CustomElementOpenOp = {
   tagName: string;
   ctor: {new (): HTMLElement};
   staticAttributes: Map<string, string>;
+  // The index of the element's `custom-element-close` opcode
+  closeIndex: number;
+  // The number of template values that the element's opcodes render
+  valueCount: number;
 };
 
 /**
@@ -255,13 +273,13 @@ const REGEXP_TEMPLATE_HAS_TOP_LEVEL_PAGE_TAG =
  * - `possible-node-marker`
  *   - Emit `<!--lit-node n-->` marker since there are attribute parts and we
  *      may emit the `defer-hydration` attribute on the node that follows
- * - `text`
- *   - Emit open tag `<x-foo`
  * - `custom-element-open`
  *   - Create the CE `instance`+`renderer` and put on
  *     `customElementInstanceStack`
  *   - Call `renderer.setAttribute()` for any `staticAttributes` (e.g.
  *     'staticAttr`)
+ * - `text`
+ *   - Emit open tag `<x-foo`
  * - `attribute-part`(s)
  *   - Call `renderer.setAttribute()` or `renderer.setProperty()` for
  *     `AttributePart`/`PropertyPart`s (e.g. for `dynamicAttr`)
@@ -276,6 +294,8 @@ const REGEXP_TEMPLATE_HAS_TOP_LEVEL_PAGE_TAG =
  * - `text`
  *   - Emit run of static text within tag: `<div>child</div>...`
  * - ...(recurse to render more parts/children)...
+ * - `text`
+ *   - Emit end tag `</x-foo>`
  * - `custom-element-close`
  *   - Pop the CE `instance`+`renderer` off the `customElementInstanceStack`
  */
@@ -372,6 +392,9 @@ const getTemplateOpcodes = (result: TemplateResult) => {
   // client-side lit-html.
   let nodeIndex = 0;
 
+  /* The indices of the `custom-element-open` opcodes of the open elements */
+  const openCustomElements: Array<number> = [];
+
   traverse(ast, {
     'pre:node'(node, parent) {
       if (isCommentNode(node)) {
@@ -391,6 +414,7 @@ const getTemplateOpcodes = (result: TemplateResult) => {
 
         const tagName = node.tagName;
 
+        let customElementOpenOp: CustomElementOpenOp | undefined;
         if (tagName.indexOf('-') !== -1) {
           // Looking up the constructor here means that custom elements must be
           // registered before rendering the first template that contains them.
@@ -398,7 +422,7 @@ const getTemplateOpcodes = (result: TemplateResult) => {
           if (ctor !== undefined) {
             // Mark that this is a custom element
             node.isDefinedCustomElement = true;
-            ops.push({
+            customElementOpenOp = {
               type: 'custom-element-open',
               tagName,
               ctor,
@@ -407,7 +431,10 @@ const getTemplateOpcodes = (result: TemplateResult) => {
                   .filter((attr) => !attr.name.endsWith(boundAttributeSuffix))
                   .map((attr) => [attr.name, attr.value])
               ),
-            });
+              // Set when the element is closed
+              closeIndex: -1,
+              valueCount: 0,
+            };
           }
         }
         const attrInfo = node.attrs.map((attr) => {
@@ -434,6 +461,12 @@ const getTemplateOpcodes = (result: TemplateResult) => {
             nodeIndex,
           });
         }
+        if (customElementOpenOp !== undefined) {
+          // The element's opcodes start with its start tag, so that the
+          // element can be rendered out of order
+          openCustomElements.push(ops.length);
+          ops.push(customElementOpenOp);
+        }
         for (const [isAttrBinding, isElementBinding, attr] of attrInfo) {
           if (isAttrBinding || isElementBinding) {
             // Note that although we emit a lit-node comment marker for any
@@ -572,6 +605,18 @@ const getTemplateOpcodes = (result: TemplateResult) => {
     },
     node(node) {
       if (isElementNode(node) && node.isDefinedCustomElement) {
+        // The element's opcodes end with its end tag
+        flushTo(node.sourceCodeLocation!.endOffset);
+        const openIndex = openCustomElements.pop()!;
+        const openOp = ops[openIndex] as CustomElementOpenOp;
+        openOp.closeIndex = ops.length;
+        for (const op of ops.slice(openIndex)) {
+          if (op.type === 'child-part' || op.type === 'element-part') {
+            openOp.valueCount++;
+          } else if (op.type === 'attribute-part') {
+            openOp.valueCount += op.strings.length - 1;
+          }
+        }
         ops.push({
           type: 'custom-element-close',
         });
@@ -608,10 +653,102 @@ export type RenderInfo = {
    */
   customElementRendered?: (tagName: string) => void;
 
+  /**
+   * A manifest to record the rendered custom elements in, including the
+   * modules that define them and whether they're in content that's
+   * streamed out of order. See `RenderManifest`.
+   */
+  manifest?: RenderManifest;
+
   /**
    * Flag to defer hydration of top level custom element. Defaults to false.
    */
   deferHydration: boolean;
+
+  /**
+   * Flag to render hydratable HTML. Defaults to true.
+   *
+   * When false, the render result is static HTML, without the comment markers
+   * and template digests that the client needs to hydrate it, or
+   * `defer-hydration` attributes. Use this for HTML that's never hydrated,
+   * like emails, feeds, and static sites. Custom elements still render their
+   * shadow roots as declarative shadow DOM.
+   */
+  hydratable?: boolean;
+
+  /**
+   * Flag to stream content that waits for a Promise out of order. Defaults to
+   * undefined.
+   *
+   * By default, a custom element whose rendering waits for a Promise (for
+   * example, because it has a `serverUpdate()` method) is rendered as a
+   * placeholder, so that the content after it keeps streaming. The element is
+   * rendered after the rest of the render result, once it's done, with an
+   * inline script that replaces the placeholder with it. Non-hydratable
+   * renders are rendered in order by default, since their scripts may never
+   * run.
+   *
+   * When true, child parts whose content waits for a Promise, like `until()`
+   * directives with an `asyncDirectiveTimeout`, are rendered out of order too.
+   * When false, everything is rendered in order, and the content after an
+   * element that waits for a Promise isn't streamed until it resolves.
+   */
+  outOfOrder?: boolean;
+
+  /**
+   * The content that's streamed out of order.
+   *
+   * @internal
+   */
+  deferredContent?: DeferredContent;
+
+  /**
+   * The part or element that content is being rendered in, when content is
+   * streamed out of order, which records whether the content is deferred.
+   *
+   * @internal
+   */
+  deferralScope?: DeferralScope;
+
+  /**
+   * How long to wait for the first values of `until()`, `asyncReplace()`,
+   * and `asyncAppend()` directives in child parts, in milliseconds since the
+   * render started. Defaults to undefined, which renders only their
+   * synchronous values.
+   *
+   * Values that resolve in time are rendered with a hydration marker that
+   * tells the client to keep the server-rendered content until the directive
+   * renders its own value. Directives that don't resolve in time render their
+   * synchronous value, as if there were no timeout.
+   */
+  asyncDirectiveTimeout?: number;
+
+  /**
+   * The time at which to stop waiting for async directives.
+   *
+   * @internal
+   */
+  asyncDirectiveDeadline?: number;
+
+  /**
+   * Flag to render the styles of each element class once, instead of in a
+   * `<style>` in the shadow root of each instance. Defaults to false.
+   *
+   * When true, the first instance of each element class renders the class's
+   * styles in a `<style>`, and other instances render a `<lit-ssr-styles>`
+   * element that adopts them into their shadow root as a constructed
+   * stylesheet. The element is defined by an inline script at the start of the
+   * render result.
+   */
+  deduplicateStyles?: boolean;
+
+  /**
+   * The element styles that have been rendered, when `deduplicateStyles` is
+   * true.
+   *
+   * @internal
+   */
+  deduplicatedStyles?: DeduplicatedStyles;
 };
 
 declare global {
@@ -625,6 +762,21 @@ export function* renderValue(
   renderInfo: RenderInfo,
   hydratable = true
 ): RenderResult {
+  if (renderInfo.hydratable === false) {
+    hydratable = false;
+  }
+  if (
+    renderInfo.asyncDirectiveDeadline !== undefined &&
+    isAsyncDirectiveResult(value)
+  ) {
+    yield renderAsyncDirective(
+      value,
+      renderInfo,
+      renderInfo.asyncDirectiveDeadline,
+      hydratable
+    );
+    return;
+  }
   patchIfDirective(value);
   if (isRenderLightDirective(value)) {
     // If a value was produced with renderLight(), we want to call and render
@@ -678,6 +830,43 @@ export function* renderValue(
   }
 }
 
+/**
+ * Renders the first value of an async directive, if it resolves before
+ * `deadline`, or else the directive's synchronous value.
+ */
+async function renderAsyncDirective(
+  value: unknown,
+  renderInfo: RenderInfo,
+  deadline: number,
+  hydratable: boolean
+): Promise<RenderResult> {
+  const first = await firstAsyncDirectiveValue(value, deadline);
+  if (first === undefined) {
+    // Render the synchronous value, which the client hydrates as usual
+    patchIfDirective(value);
+    return renderValue(
+      resolveDirective(
+        connectedDisconnectable({type: PartType.CHILD}) as ChildPart,
+        value
+      ),
+      renderInfo,
+      hydratable
+    );
+  }
+  return (function* () {
+    // The client keeps the content of `async` parts instead of hydrating it,
+    // since it doesn't have the value yet, until the directive renders.
+    // Keep in sync with @lit-labs/ssr-client.
+    if (hydratable) {
+      yield `<!--lit-part async-->`;
+    }
+    yield* renderValue(first.value, renderInfo, false);
+    if (hydratable) {
+      yield `<!--/lit-part-->`;
+    }
+  })();
+}
+
 function* renderTemplateResult(
   result: TemplateResult,
   renderInfo: RenderInfo
@@ -697,13 +886,39 @@ function* renderTemplateResult(
   // elements. For each we will record the offset of the node, and output the
   // previous span of HTML.
 
-  const hydratable = isHydratable(result);
   const ops = getTemplateOpcodes(result);
+  const partIndex = yield* renderTemplateOps(
+    result,
+    ops,
+    0,
+    ops.length,
+    0,
+    renderInfo
+  );
 
-  /* The next value in result.values to render */
-  let partIndex = 0;
+  if (partIndex !== result.values.length) {
+    throwErrorForPartIndexMismatch(partIndex, result);
+  }
+}
 
-  for (const op of ops) {
+/**
+ * Renders the opcodes of `result` from `start` up to `end`, starting with the
+ * value at `partIndex`. Returns the index of the next value to render.
+ */
+function* renderTemplateOps(
+  result: TemplateResult,
+  ops: Array<Op>,
+  start: number,
+  end: number,
+  partIndex: number,
+  renderInfo: RenderInfo
+): Generator<string | Promise<RenderResult>, number, undefined> {
+  // Templates are parsed the same way in non-hydratable renders, but don't
+  // render hydration markers
+  const hydratable = renderInfo.hydratable !== false && isHydratable(result);
+
+  for (let i = start; i < end; i++) {
+    const op = ops[i];
     switch (op.type) {
       case 'text':
         yield op.value;
@@ -724,7 +939,32 @@ And the inner template was:
             );
           }
         }
-        yield* renderValue(value, renderInfo, isValueHydratable);
+        const {deferredContent, outOfOrder} = renderInfo;
+        if (outOfOrder && deferredContent !== undefined) {
+          // The part's content may be rendered out of order, so it needs its
+          // own render state
+          const deferralScope = {
+            deferred: false,
+            parent: renderInfo.deferralScope,
+          };
+          yield* deferredContent.renderDeferrable(
+            renderValue(
+              value,
+              {
+                ...renderInfo,
+                customElementInstanceStack: [
+                  ...renderInfo.customElementInstanceStack,
+                ],
+                customElementHostStack: [...renderInfo.customElementHostStack],
+                deferralScope,
+              },
+              isValueHydratable
+            ),
+            deferralScope
+          );
+        } else {
+          yield* renderValue(value, renderInfo, isValueHydratable);
+        }
         break;
       }
       case 'attribute-part': {
@@ -777,19 +1017,41 @@ And the inner template was:
         break;
       }
       case 'custom-element-open': {
-        // Instantiate the element and its renderer
-        const instance = getElementRenderer(
-          renderInfo,
-          op.tagName,
-          op.ctor,
-          op.staticAttributes
-        );
-        // Set static attributes to the element renderer
-        for (const [name, value] of op.staticAttributes) {
-          instance.setAttribute(name, value);
+        const {deferredContent} = renderInfo;
+        if (deferredContent === undefined) {
+          openCustomElement(op, renderInfo);
+          break;
         }
-        renderInfo.customElementInstanceStack.push(instance);
-        renderInfo.customElementRendered?.(op.tagName);
+        // The element may be rendered out of order, so it needs its own
+        // render state
+        const deferralScope = {
+          deferred: false,
+          parent: renderInfo.deferralScope,
+        };
+        const elementRenderInfo = {
+          ...renderInfo,
+          customElementInstanceStack: [
+            ...renderInfo.customElementInstanceStack,
+          ],
+          customElementHostStack: [...renderInfo.customElementHostStack],
+          deferralScope,
+        };
+        yield* deferredContent.renderDeferrable(
+          (function* () {
+            openCustomElement(op, elementRenderInfo);
+            yield* renderTemplateOps(
+              result,
+              ops,
+              i + 1,
+              op.closeIndex + 1,
+              partIndex,
+              elementRenderInfo
+            );
+          })(),
+          deferralScope
+        );
+        i = op.closeIndex;
+        partIndex += op.valueCount;
         break;
       }
       case 'custom-element-attributes': {
@@ -799,6 +1061,9 @@ And the inner template was:
             `Internal error: ${op.type} outside of custom element context`
           );
         }
+        // Provide context values before connect-time work, so that it can
+        // use them
+        provideContext(instance, renderInfo.customElementInstanceStack);
         // Perform any connect-time work via the renderer (e.g. reflecting any
         // properties to attributes, for example)
         if (instance.connectedCallback) {
@@ -806,13 +1071,16 @@ And the inner template was:
         }
         // Render out any attributes on the instance (both static and those
         // that may have been dynamically set by the renderer)
-        yield* instance.renderAttributes();
+        yield* instance.renderAttributes(renderInfo);
         // If deferHydration flag is true or if this element is nested in
         // another, add the `defer-hydration` attribute, so that it does not
-        // enable before the host element hydrates
+        // enable before the host element hydrates. Islands also defer
+        // hydration, until their trigger fires.
         if (
-          renderInfo.deferHydration ||
-          renderInfo.customElementHostStack.length > 0
+          renderInfo.hydratable !== false &&
+          (renderInfo.deferHydration ||
+            renderInfo.customElementHostStack.length > 0 ||
+            instance.element?.hasAttribute(HYDRATE_ON_ATTR))
         ) {
           yield ' defer-hydration';
         }
@@ -866,10 +1134,27 @@ And the inner template was:
         throw new Error('internal error');
     }
   }
+  return partIndex;
+}
 
-  if (partIndex !== result.values.length) {
-    throwErrorForPartIndexMismatch(partIndex, result);
+/**
+ * Creates the renderer of a custom element, and sets its static attributes.
+ */
+function openCustomElement(op: CustomElementOpenOp, renderInfo: RenderInfo) {
+  // Instantiate the element and its renderer
+  const instance = getElementRenderer(
+    renderInfo,
+    op.tagName,
+    op.ctor,
+    op.staticAttributes
+  );
+  // Set static attributes to the element renderer
+  for (const [name, value] of op.staticAttributes) {
+    instance.setAttribute(name, value);
   }
+  renderInfo.customElementInstanceStack.push(instance);
+  renderInfo.customElementRendered?.(op.tagName);
+  renderInfo.manifest?.record(op.tagName, op.ctor, renderInfo.deferralScope);
 }
 
 function throwErrorForPartIndexMismatch(
@@ -950,6 +1235,48 @@ function displayTemplateResult(
 
 const getLast = <T>(a: Array<T>) => a[a.length - 1];
 
+type ContextRequest = {
+  context: unknown;
+  callback: (value: unknown) => void;
+};
+
+/**
+ * The context requests and providers that @lit/context adds to elements when
+ * they can't use DOM events to request and provide context.
+ */
+type ContextHost = {
+  _$litContextRequests$?: Array<ContextRequest>;
+  _$litContextProviders$?: Array<(request: ContextRequest) => boolean>;
+};
+
+/**
+ * Passes the context requests of `instance`'s element to the context
+ * providers of the open elements that contain it, which are its ancestors in
+ * the composed tree, starting with the closest.
+ */
+const provideContext = (
+  instance: ElementRenderer,
+  instanceStack: Array<ElementRenderer | undefined>
+) => {
+  const requests = (instance.element as ContextHost | undefined)?.[
+    '_$litContextRequests$'
+  ];
+  if (requests === undefined) {
+    return;
+  }
+  for (const request of requests) {
+    // The last instance is the element itself
+    for (let i = instanceStack.length - 2; i >= 0; i--) {
+      const providers = (
+        instanceStack[i]?.element as ContextHost | undefined
+      )?.['_$litContextProviders$'];
+      if (providers?.some((provide) => provide(request))) {
+        break;
+      }
+    }
+  }
+};
+
 /**
  * Returns true if the given node is a <script> node that the browser will
  * automatically execute if it's rendered on server-side, outside of a
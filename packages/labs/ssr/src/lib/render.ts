@@ -6,6 +6,8 @@
 
 import {LitElementRenderer} from './lit-element-renderer.js';
 import {renderValue} from './render-value.js';
+import {DeferredContent} from './deferred-content.js';
+import {DeduplicatedStyles} from './deduplicated-styles.js';
 
 import type {RenderInfo} from './render-value.js';
 export type {RenderInfo} from './render-value.js';
@@ -41,5 +43,32 @@ export function* render(
   if (isTemplateResult(value)) {
     hydratable = isHydratable(value);
   }
+  // Reentrant calls pass on the deferred content of the outer call, which
+  // renders it at the end. Static HTML is rendered in order by default, since
+  // it may be read without running the scripts that swap in deferred content.
+  let deferredContent: DeferredContent | undefined;
+  if (
+    (renderInfo.outOfOrder ?? renderInfo.hydratable !== false) &&
+    renderInfo.deferredContent === undefined
+  ) {
+    deferredContent = renderInfo.deferredContent = new DeferredContent();
+  }
+  if (
+    renderInfo.deduplicateStyles &&
+    renderInfo.deduplicatedStyles === undefined
+  ) {
+    renderInfo.deduplicatedStyles = new DeduplicatedStyles();
+    yield* renderInfo.deduplicatedStyles.renderScript();
+  }
+  if (
+    renderInfo.asyncDirectiveTimeout !== undefined &&
+    renderInfo.asyncDirectiveDeadline === undefined
+  ) {
+    renderInfo.asyncDirectiveDeadline =
+      Date.now() + renderInfo.asyncDirectiveTimeout;
+  }
   yield* renderValue(value, renderInfo as RenderInfo, hydratable);
+  if (deferredContent !== undefined) {
+    yield* deferredContent.flush();
+  }
 }
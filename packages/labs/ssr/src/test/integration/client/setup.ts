@@ -190,6 +190,33 @@ const assertHTML = (
   }
 };
 
+/**
+ * Parses the server-rendered HTML as a document, which runs its scripts and
+ * attaches its declarative shadow roots like a streamed page, and moves the
+ * resulting nodes into `container`. `check` is called with the document's
+ * body before the nodes are moved.
+ */
+const renderInDocument = async (
+  html: string,
+  container: HTMLElement,
+  check?: (body: HTMLElement) => void | Promise<unknown>
+) => {
+  const iframe = document.createElement('iframe');
+  const loaded = new Promise((resolve) =>
+    iframe.addEventListener('load', resolve, {once: true})
+  );
+  // The body start tag keeps leading comments in the body
+  iframe.srcdoc = `<!doctype html><body>${html}</body>`;
+  document.body.appendChild(iframe);
+  await loaded;
+  try {
+    await check?.(iframe.contentDocument!.body);
+    container.append(...Array.from(iframe.contentDocument!.body.childNodes));
+  } finally {
+    iframe.remove();
+  }
+};
+
 const modes = ['vm', 'vm-shimmed', 'global', 'global-shimmed'] as const;
 export const setupTest = async (
   tests: SSRTestSuite,
@@ -252,6 +279,8 @@ export const setupTest = async (
         expectMutationsDuringUpgrade,
         skipPreHydrationAssertHtml,
         serverOnly,
+        checkServerRender,
+        hydrateOptions,
       } = testSetup;
 
       const testFn =
@@ -266,7 +295,18 @@ export const setupTest = async (
       testFn(testName, async () => {
         // Get the SSR result from the server.
         const response = await fetch(`/render/${mode}/${testFile}/${testName}`);
-        container.innerHTML = await response.text();
+        const serverHtml = await response.text();
+        if (serverHtml.includes('<script>')) {
+          // Out of order content is swapped in, and deduplicated styles are
+          // adopted, by scripts
+          await renderInDocument(
+            serverHtml,
+            container,
+            checkServerRender && ((body) => checkServerRender(assert, body))
+          );
+        } else {
+          container.innerHTML = serverHtml;
+        }
 
         // For element tests, hydrate shadowRoots
         if (typeof registerElements === 'function') {
@@ -325,7 +365,11 @@ export const setupTest = async (
             continue;
           }
           if (shouldHydrate) {
-            hydrate(expectationRender(...args), expectationContainer);
+            hydrate(
+              expectationRender(...args),
+              expectationContainer,
+              hydrateOptions
+            );
             // Hydration should cause no DOM mutations, because it does not
             // actually update the DOM - it just recreates data structures
             if (!expectMutationsDuringHydration) {
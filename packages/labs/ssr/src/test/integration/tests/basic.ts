@@ -6,7 +6,7 @@
 
 import '@lit-labs/ssr-client/lit-element-hydrate-support.js';
 
-import {html, svg, noChange, nothing, Part} from 'lit';
+import {html, svg, noChange, nothing, Part, isServer} from 'lit';
 import {html as staticHtml, literal} from 'lit/static-html.js';
 import {
   directive,
@@ -23,9 +23,9 @@ import {cache} from 'lit/directives/cache.js';
 import {classMap} from 'lit/directives/class-map.js';
 import {styleMap} from 'lit/directives/style-map.js';
 import {until} from 'lit/directives/until.js';
+import {asyncReplace} from 'lit/directives/async-replace.js';
 // TODO(kschaaf): Enable once async directives are implemented
 // import {asyncAppend} from 'lit/directives/async-append.js';
-// import {asyncReplace} from 'lit/directives/async-replace.js';
 // import {TestAsyncIterable} from 'lit/test/lib/test-async-iterable.js';
 import {ifDefined} from 'lit/directives/if-defined.js';
 import {live} from 'lit/directives/live.js';
@@ -33,7 +33,7 @@ import {unsafeHTML} from 'lit/directives/unsafe-html.js';
 import {unsafeSVG} from 'lit/directives/unsafe-svg.js';
 import {createRef, ref} from 'lit/directives/ref.js';
 
-import {LitElement, PropertyValues} from 'lit';
+import {LitElement, PropertyValues, css} from 'lit';
 import {property} from 'lit/decorators/property.js';
 import {
   renderLight,
@@ -825,6 +825,78 @@ export const tests: {[name: string]: SSRTest} = {
     };
   },
 
+  'ChildPart accepts directive: until (server-rendered promise)': () => {
+    // The server renders the Promise's value, which the client's Promise
+    // hasn't resolved to yet when the part hydrates
+    let resolve: (v: string) => void;
+    const promise = isServer
+      ? Promise.resolve('promise')
+      : new Promise((r) => (resolve = r));
+    return {
+      render(...args) {
+        return html` <div>${until(...args)}</div> `;
+      },
+      serverRenderOptions: {
+        asyncDirectiveTimeout: 1000,
+      },
+      expectations: [
+        {
+          args: [promise, 'foo'],
+          html: '<div>promise</div>',
+        },
+        {
+          async setup() {
+            resolve('promise');
+            await promise;
+          },
+          args: [promise, 'foo'],
+          html: '<div>promise</div>',
+        },
+        {
+          args: ['bar'],
+          html: '<div>bar</div>',
+        },
+      ],
+      stableSelectors: ['div'],
+    };
+  },
+
+  'ChildPart accepts directive: asyncReplace (server-rendered value)': () => {
+    let resolve: (v: string) => void;
+    const promise = new Promise<string>((r) => (resolve = r));
+    async function* values() {
+      yield isServer ? 'first' : await promise;
+    }
+    const iterable = values();
+    return {
+      render(iterable) {
+        return html`
+          <div>${asyncReplace(iterable, (v) => html`<b>${v}</b>`)}</div>
+        `;
+      },
+      serverRenderOptions: {
+        asyncDirectiveTimeout: 1000,
+      },
+      expectations: [
+        {
+          args: [iterable],
+          html: '<div><b>first</b></div>',
+        },
+        {
+          async setup() {
+            resolve('second');
+            await promise;
+            // Wait for asyncReplace() to render the value
+            await new Promise((r) => setTimeout(r));
+          },
+          args: [iterable],
+          html: '<div><b>second</b></div>',
+        },
+      ],
+      stableSelectors: ['div'],
+    };
+  },
+
   // TODO(kschaaf): Enable once async directives are implemented
 
   // 'ChildPart accepts directive: asyncAppend': () => {
@@ -955,6 +1027,49 @@ export const tests: {[name: string]: SSRTest} = {
     stableSelectors: ['div'],
   },
 
+  'ChildPart recovers from a mismatched TemplateResult': {
+    render(x: unknown) {
+      const content = isServer
+        ? html`<p>server ${x}</p>`
+        : html`<span>client ${x}</span>`;
+      return html` <div>${content}</div> `;
+    },
+    hydrateOptions: {recoverMismatches: true},
+    expectations: [
+      {
+        args: ['a'],
+        html: '<div><span>client a</span></div>',
+      },
+      {
+        args: ['b'],
+        html: '<div><span>client b</span></div>',
+      },
+    ],
+    stableSelectors: ['div'],
+    expectMutationsDuringHydration: true,
+    skipPreHydrationAssertHtml: true,
+  },
+
+  'ChildPart recovers from a primitive where a TemplateResult was rendered': {
+    render(x: unknown) {
+      return html` <div>${isServer ? html`<p>${x}</p>` : x}</div> `;
+    },
+    hydrateOptions: {recoverMismatches: true},
+    expectations: [
+      {
+        args: ['a'],
+        html: '<div>a</div>',
+      },
+      {
+        args: ['b'],
+        html: '<div>b</div>',
+      },
+    ],
+    stableSelectors: ['div'],
+    expectMutationsDuringHydration: true,
+    skipPreHydrationAssertHtml: true,
+  },
+
   /******************************************************
    * AttributePart tests
    ******************************************************/
@@ -5526,6 +5641,271 @@ export const tests: {[name: string]: SSRTest} = {
       stableSelectors: ['le-internals-hydrate'],
     };
   },
+  'LitElement: streamed out of order': () => {
+    return {
+      registerElements() {
+        class LEOutOfOrder extends LitElement {
+          @property({type: Number})
+          delay = 0;
+          @property({reflect: true})
+          status = 'loading';
+          async serverUpdate() {
+            await new Promise((resolve) => setTimeout(resolve, this.delay));
+            this.status = 'loaded';
+          }
+          override render() {
+            return html`<span>${this.status}</span>`;
+          }
+        }
+        customElements.define('le-out-of-order', LEOutOfOrder);
+      },
+      render() {
+        // The first element finishes last
+        return html`<main>
+          <le-out-of-order delay="20"></le-out-of-order>
+          <p>between</p>
+          <le-out-of-order></le-out-of-order>
+        </main>`;
+      },
+      expectations: [
+        {
+          args: [],
+          check(assert: Chai.Assert, dom: HTMLElement) {
+            // The swap scripts and templates removed themselves
+            assert.isNull(dom.querySelector('template, script'));
+          },
+          html: {
+            root: `<main>
+              <le-out-of-order delay="20" status="loaded"></le-out-of-order>
+              <p>between</p>
+              <le-out-of-order status="loaded"></le-out-of-order>
+            </main>`,
+            'le-out-of-order': `<span>loaded</span>`,
+          },
+        },
+        {
+          args: [],
+          async check(_assert: Chai.Assert, dom: HTMLElement) {
+            const el = dom.querySelector('le-out-of-order') as LitElement & {
+              status: string;
+            };
+            el.status = 'updated';
+            await el.updateComplete;
+          },
+          html: {
+            root: `<main>
+              <le-out-of-order delay="20" status="updated"></le-out-of-order>
+              <p>between</p>
+              <le-out-of-order status="loaded"></le-out-of-order>
+            </main>`,
+            'le-out-of-order': `<span>updated</span>`,
+          },
+        },
+      ],
+      stableSelectors: ['main', 'le-out-of-order', 'p'],
+    };
+  },
+
+  'LitElement: streamed out of order in a shadow root': () => {
+    return {
+      registerElements() {
+        class LEOutOfOrderChild extends LitElement {
+          @property({reflect: true})
+          status = 'loading';
+          async serverUpdate() {
+            await new Promise((resolve) => setTimeout(resolve));
+            this.status = 'loaded';
+          }
+          override render() {
+            return html`<span>${this.status}</span>`;
+          }
+        }
+        customElements.define('le-out-of-order-child', LEOutOfOrderChild);
+        class LEOutOfOrderHost extends LitElement {
+          override render() {
+            // The child is deferred in the shadow root
+            return html`<p>host</p>
+              ${html`<le-out-of-order-child></le-out-of-order-child>`}`;
+          }
+        }
+        customElements.define('le-out-of-order-host', LEOutOfOrderHost);
+      },
+      render() {
+        return html`<le-out-of-order-host></le-out-of-order-host>
+          <p>after</p>`;
+      },
+      expectations: [
+        {
+          args: [],
+          check(assert: Chai.Assert, dom: HTMLElement) {
+            const host = dom.querySelector('le-out-of-order-host')!;
+            assert.isNull(dom.querySelector('template, script'));
+            assert.isNull(host.shadowRoot!.querySelector('template, script'));
+          },
+          html: {
+            root: `<le-out-of-order-host></le-out-of-order-host><p>after</p>`,
+            'le-out-of-order-host': {
+              root: `<p>host</p><le-out-of-order-child status="loaded"></le-out-of-order-child>`,
+              'le-out-of-order-child': `<span>loaded</span>`,
+            },
+          },
+        },
+        {
+          args: [],
+          async check(_assert: Chai.Assert, dom: HTMLElement) {
+            const host = dom.querySelector('le-out-of-order-host')!;
+            const child = host.shadowRoot!.querySelector(
+              'le-out-of-order-child'
+            ) as LitElement & {status: string};
+            child.status = 'updated';
+            await child.updateComplete;
+          },
+          html: {
+            root: `<le-out-of-order-host></le-out-of-order-host><p>after</p>`,
+            'le-out-of-order-host': {
+              root: `<p>host</p><le-out-of-order-child status="updated"></le-out-of-order-child>`,
+              'le-out-of-order-child': `<span>updated</span>`,
+            },
+          },
+        },
+      ],
+      stableSelectors: ['le-out-of-order-host', 'p'],
+    };
+  },
+
+  'LitElement: streamed out of order in deferred content': () => {
+    return {
+      registerElements() {
+        class LEOutOfOrderNested extends LitElement {
+          @property({type: Number})
+          delay = 0;
+          @property({reflect: true})
+          status = 'loading';
+          async serverUpdate() {
+            await new Promise((resolve) => setTimeout(resolve, this.delay));
+            this.status = 'loaded';
+          }
+          override render() {
+            return html`<span>${this.status}</span>`;
+          }
+        }
+        customElements.define('le-out-of-order-nested', LEOutOfOrderNested);
+      },
+      render() {
+        // The parts are streamed out of order too, but only the elements in
+        // them wait, so each element is swapped into its part
+        return html`<div>
+          ${html`${html`<le-out-of-order-nested></le-out-of-order-nested>`}
+            <le-out-of-order-nested delay="20"></le-out-of-order-nested>`}
+        </div>`;
+      },
+      serverRenderOptions: {
+        outOfOrder: true,
+      },
+      expectations: [
+        {
+          args: [],
+          check(assert: Chai.Assert, dom: HTMLElement) {
+            assert.isNull(dom.querySelector('template, script'));
+          },
+          html: {
+            root: `<div>
+              <le-out-of-order-nested status="loaded"></le-out-of-order-nested>
+              <le-out-of-order-nested delay="20" status="loaded"></le-out-of-order-nested>
+            </div>`,
+            'le-out-of-order-nested': `<span>loaded</span>`,
+          },
+        },
+        {
+          args: [],
+          async check(assert: Chai.Assert, dom: HTMLElement) {
+            const els = dom.querySelectorAll(
+              'le-out-of-order-nested'
+            ) as NodeListOf<LitElement & {status: string}>;
+            els[1].status = 'updated';
+            await els[1].updateComplete;
+            assert.equal(
+              els[1].shadowRoot!.querySelector('span')!.textContent,
+              'updated'
+            );
+          },
+          html: {
+            root: `<div>
+              <le-out-of-order-nested status="loaded"></le-out-of-order-nested>
+              <le-out-of-order-nested delay="20" status="updated"></le-out-of-order-nested>
+            </div>`,
+            'le-out-of-order-nested': `<span>loaded</span>`,
+          },
+        },
+      ],
+      stableSelectors: ['div', 'le-out-of-order-nested'],
+    };
+  },
+
+  'LitElement: deduplicated styles': () => {
+    /** Asserts that the hosts are styled by their class's styles */
+    const assertStyled = (assert: Chai.Assert, dom: HTMLElement) => {
+      const els = dom.querySelectorAll('le-deduplicated-styles');
+      assert.equal(els.length, 2);
+      for (const el of Array.from(els)) {
+        const style = el.ownerDocument.defaultView!.getComputedStyle(el);
+        assert.equal(style.color, 'rgb(0, 128, 0)');
+      }
+    };
+    return {
+      registerElements() {
+        class LEDeduplicatedStyles extends LitElement {
+          static override styles = css`
+            :host {
+              color: rgb(0, 128, 0);
+            }
+          `;
+          override render() {
+            return html`<span>styled</span>`;
+          }
+        }
+        customElements.define('le-deduplicated-styles', LEDeduplicatedStyles);
+      },
+      render() {
+        return html`<main>
+          <le-deduplicated-styles></le-deduplicated-styles>
+          <le-deduplicated-styles></le-deduplicated-styles>
+        </main>`;
+      },
+      serverRenderOptions: {
+        deduplicateStyles: true,
+      },
+      checkServerRender(assert: Chai.Assert, dom: HTMLElement) {
+        // The second instance adopts the styles of the first before it's
+        // hydrated
+        assertStyled(assert, dom);
+        assert.isNull(dom.querySelector('script'));
+        for (const el of Array.from(
+          dom.querySelectorAll('le-deduplicated-styles')
+        )) {
+          assert.isNull(el.shadowRoot!.querySelector('lit-ssr-styles'));
+        }
+      },
+      expectations: [
+        {
+          args: [],
+          check: assertStyled,
+          html: {
+            root: `<main>
+              <le-deduplicated-styles></le-deduplicated-styles>
+              <le-deduplicated-styles></le-deduplicated-styles>
+            </main>`,
+            'le-deduplicated-styles': [
+              `<span>styled</span>`,
+              `<span>styled</span>`,
+            ],
+          },
+        },
+      ],
+      stableSelectors: ['main', 'le-deduplicated-styles'],
+    };
+  },
+
   /******************************************************
    * Server-only template tests
    ******************************************************/
@@ -6,6 +6,7 @@
 
 import type {TemplateResult} from 'lit';
 import type {RenderInfo} from '../../../lib/render-lit-html.js';
+import type {HydrateOptions} from '@lit-labs/ssr-client';
 
 export type SSRExpectedHTML =
   | string
@@ -63,6 +64,16 @@ export interface SSRTestDescription {
   only?: boolean;
   registerElements?(): void | Promise<unknown>;
   serverRenderOptions?: Partial<RenderInfo>;
+  /**
+   * Checks the server-rendered HTML of a render with scripts (content that's
+   * streamed out of order, or `deduplicateStyles`), in the document that it's
+   * parsed in, before it's moved into the test container and hydrated.
+   */
+  checkServerRender?(
+    assert: Chai.Assert,
+    dom: HTMLElement
+  ): void | Promise<unknown>;
+  hydrateOptions?: Partial<HydrateOptions>;
   serverOnly?: true;
   renderFns?: Record<string, (...args: any) => TemplateResult>;
 }
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {ModuleLoader} from '../../lib/module-loader.js';
+import {test} from 'uvu';
+// eslint-disable-next-line import/extensions
+import * as assert from 'uvu/assert';
+import type * as testModule from '../test-files/render-async-directives-module.js';
+import {collectResult} from '../../lib/render-result.js';
+
+const loader = new ModuleLoader();
+
+const appModuleImport = loader.importModule(
+  '../test-files/render-async-directives-module.js',
+  import.meta.url
+);
+
+const setup = async () => {
+  const namespace = (await appModuleImport).module
+    .namespace as typeof testModule;
+
+  return {
+    ...namespace,
+
+    /** Renders the value, waiting up to 50ms for async directives */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    render: (r: any) =>
+      collectResult(namespace.render(r, {asyncDirectiveTimeout: 50})),
+
+    /** Renders the value without waiting for async directives */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    renderSync: (r: any) => collectResult(namespace.render(r)),
+  };
+};
+
+test('until() renders the first value that resolves in time', async () => {
+  const {render, untilTemplate, resolvesAfter} = await setup();
+  assert.match(
+    await render(untilTemplate(resolvesAfter(0, 'Loaded'))),
+    `<p><!--lit-part async-->Loaded<!--/lit-part--></p>`
+  );
+});
+
+test('until() renders its fallback if nothing resolves in time', async () => {
+  const {render, renderSync, untilTemplate, resolvesAfter} = await setup();
+  const result = await render(untilTemplate(resolvesAfter(100, 'Loaded')));
+  assert.match(result, `<p><!--lit-part-->Loading<!--/lit-part--></p>`);
+  assert.is(
+    result,
+    await renderSync(untilTemplate(resolvesAfter(0, 'Loaded')))
+  );
+});
+
+test('until() renders its fallback if its Promises reject', async () => {
+  const {render, untilNoFallback} = await setup();
+  assert.match(
+    await render(untilNoFallback(Promise.reject(new Error('failed')))),
+    `<p><!--lit-part--><!--/lit-part--></p>`
+  );
+});
+
+test('asyncReplace() renders the first value of the iterable', async () => {
+  const {render, asyncReplaceTemplate, values} = await setup();
+  assert.match(
+    await render(asyncReplaceTemplate(values())),
+    `<p><!--lit-part async--><b><!--lit-part-->first<!--/lit-part--></b><!--/lit-part--></p>`
+  );
+});
+
+test('asyncAppend() renders the first value of the iterable', async () => {
+  const {render, asyncAppendTemplate, values} = await setup();
+  assert.match(
+    await render(asyncAppendTemplate(values())),
+    `<p><!--lit-part async-->first<!--/lit-part--></p>`
+  );
+});
+
+test('async directives are only awaited with a timeout', async () => {
+  const {renderSync, asyncReplaceTemplate, values} = await setup();
+  assert.match(
+    await renderSync(asyncReplaceTemplate(values())),
+    `<p><!--lit-part--><!--/lit-part--></p>`
+  );
+});
+
+test.run();
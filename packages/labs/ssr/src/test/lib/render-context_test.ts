@@ -0,0 +1,61 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {ModuleLoader} from '../../lib/module-loader.js';
+import {test} from 'uvu';
+// eslint-disable-next-line import/extensions
+import * as assert from 'uvu/assert';
+import type * as testModule from '../test-files/render-context-module.js';
+import {collectResultSync} from '../../lib/render-result.js';
+
+// @lit/context defines Event subclasses, and Event isn't a JS built-in
+const loader = new ModuleLoader({global: {Event}});
+
+const appModuleImport = loader.importModule(
+  '../test-files/render-context-module.js',
+  import.meta.url
+);
+
+const setup = async () => {
+  const namespace = (await appModuleImport).module
+    .namespace as typeof testModule;
+
+  return {
+    ...namespace,
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    render: (r: any) => collectResultSync(namespace.render(r)),
+  };
+};
+
+test('consumers in a shadow root are provided context', async () => {
+  const {render, providedInShadowRoot} = await setup();
+  const result = render(providedInShadowRoot);
+  assert.match(
+    result,
+    `<!--lit-part-->Hi<!--/lit-part-->, <!--lit-part-->Ann<!--/lit-part-->`
+  );
+});
+
+test('consumers in light DOM are provided context', async () => {
+  const {render, providedInLightDom} = await setup();
+  const result = render(providedInLightDom);
+  assert.match(
+    result,
+    `<!--lit-part-->Hello<!--/lit-part-->, <!--lit-part-->Ann<!--/lit-part-->`
+  );
+});
+
+test('consumers without a provider render without context', async () => {
+  const {render, notProvided} = await setup();
+  const result = render(notProvided);
+  assert.match(
+    result,
+    `<!--lit-part-->Hi<!--/lit-part-->, <!--lit-part-->nobody<!--/lit-part-->`
+  );
+});
+
+test.run();
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {ModuleLoader} from '../../lib/module-loader.js';
+import {test} from 'uvu';
+// eslint-disable-next-line import/extensions
+import * as assert from 'uvu/assert';
+import type * as testModule from '../test-files/render-deduplicated-styles-module.js';
+import {collectResult} from '../../lib/render-result.js';
+
+const loader = new ModuleLoader();
+
+const appModuleImport = loader.importModule(
+  '../test-files/render-deduplicated-styles-module.js',
+  import.meta.url
+);
+
+const setup = async () => {
+  const namespace = (await appModuleImport).module
+    .namespace as typeof testModule;
+
+  return {
+    ...namespace,
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    render: (r: any) => collectResult(namespace.render(r)),
+
+    /** Renders the value with deduplicated styles */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    renderDeduplicated: (r: any) =>
+      collectResult(namespace.render(r, {deduplicateStyles: true})),
+  };
+};
+
+const count = (s: string, substring: string) => s.split(substring).length - 1;
+
+test('styles are rendered in a <style> by default', async () => {
+  const {render, cards} = await setup();
+  const result = await render(cards);
+  assert.is(count(result, '<style>'), 4);
+  assert.is(count(result, 'display: block'), 3);
+});
+
+test('the styles of each element class are rendered once', async () => {
+  const {renderDeduplicated, cards} = await setup();
+  const result = await renderDeduplicated(cards);
+  assert.is(count(result, '<style>'), 2);
+  assert.is(count(result, 'display: block'), 1);
+  assert.match(
+    result,
+    /<style>[^<]*display: block[^<]*<\/style><lit-ssr-styles sheet="0" define><\/lit-ssr-styles>/
+  );
+  assert.match(result, '</style><lit-ssr-styles sheet="1" define>');
+});
+
+test('other instances adopt the styles of their class', async () => {
+  const {renderDeduplicated, cards} = await setup();
+  const result = await renderDeduplicated(cards);
+  assert.is(count(result, '<lit-ssr-styles sheet="0"></lit-ssr-styles>'), 2);
+  assert.is(count(result, '<lit-ssr-styles sheet="1"'), 1);
+});
+
+test('the script that adopts styles is rendered once, before them', async () => {
+  const {renderDeduplicated, cards} = await setup();
+  const result = await renderDeduplicated(cards);
+  assert.ok(result.startsWith('<script>'));
+  assert.is(count(result, "customElements.define('lit-ssr-styles'"), 1);
+  assert.is(count(result, '<script>'), 1);
+});
+
+test('styles are escaped so that they stay in the <style>', async () => {
+  const {renderDeduplicated, cards} = await setup();
+  const result = await renderDeduplicated(cards);
+  assert.not.match(result, `'</style></script>'`);
+  assert.match(result, `'<\\/style></script>'`);
+});
+
+test.run();
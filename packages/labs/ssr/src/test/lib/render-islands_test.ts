@@ -0,0 +1,51 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {ModuleLoader} from '../../lib/module-loader.js';
+import {test} from 'uvu';
+// eslint-disable-next-line import/extensions
+import * as assert from 'uvu/assert';
+import type * as testModule from '../test-files/render-islands-module.js';
+import {collectResult} from '../../lib/render-result.js';
+
+const loader = new ModuleLoader();
+
+const appModuleImport = loader.importModule(
+  '../test-files/render-islands-module.js',
+  import.meta.url
+);
+
+const setup = async () => {
+  const namespace = (await appModuleImport).module
+    .namespace as typeof testModule;
+
+  return {
+    ...namespace,
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    render: (r: any) => collectResult(namespace.render(r)),
+  };
+};
+
+test('islands defer hydration', async () => {
+  const {render, island} = await setup();
+  const result = await render(island);
+  assert.match(result, ` hydrate-on="visible" defer-hydration>`);
+});
+
+test('islands with a bound trigger defer hydration', async () => {
+  const {render, boundIsland} = await setup();
+  const result = await render(boundIsland('idle'));
+  assert.match(result, ` hydrate-on="idle" defer-hydration>`);
+});
+
+test('top-level elements that are not islands hydrate', async () => {
+  const {render, notIsland} = await setup();
+  const result = await render(notIsland);
+  assert.not.match(result, `defer-hydration`);
+});
+
+test.run();
@@ -824,6 +824,47 @@ for (const global of [emptyVmGlobal, shimmedVmGlobal]) {
       render(renderServerOnlyElementPart);
     }, /Server-only templates don't support element parts/);
   });
+
+  /* Non-hydratable renders */
+
+  test('non-hydratable nested template', async () => {
+    const {render, nestedTemplate} = await setup();
+    const result = render(nestedTemplate, {hydratable: false});
+    assert.is(result, `<div><p>Hi</p></div>`);
+  });
+
+  test('non-hydratable element with property', async () => {
+    const {render, elementWithProperty} = await setup();
+    const result = render(elementWithProperty, {hydratable: false});
+    assert.is(
+      result,
+      `<test-property ><template shadowroot="open" shadowrootmode="open"><main>bar</main></template></test-property>`
+    );
+  });
+
+  test('non-hydratable elements do not defer hydration', async () => {
+    const {render, simpleTemplateWithElement} = await setup();
+    const result = render(simpleTemplateWithElement, {
+      hydratable: false,
+      deferHydration: true,
+    });
+    assert.is(
+      result,
+      `<test-simple><template shadowroot="open" shadowrootmode="open"><main></main></template></test-simple>`
+    );
+  });
+
+  test('non-hydratable template can render a server-only template', async () => {
+    const {render, hydratableRenderServerOnly} = await setup();
+    const result = render(hydratableRenderServerOnly, {hydratable: false});
+    assert.is(
+      result,
+      `
+  <div>dynamic!</div>
+  <div>one time</div>
+`
+    );
+  });
 }
 
 test.run();
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {ModuleLoader} from '../../lib/module-loader.js';
+import {
+  RenderManifest,
+  renderModulePreloads,
+} from '../../lib/render-manifest.js';
+import {test} from 'uvu';
+// eslint-disable-next-line import/extensions
+import * as assert from 'uvu/assert';
+import type * as testModule from '../test-files/render-manifest-module.js';
+import {collectResult} from '../../lib/render-result.js';
+import type {RenderInfo} from '../../lib/render-value.js';
+import {fileURLToPath} from 'url';
+
+const loader = new ModuleLoader();
+
+const appModuleImport = loader.importModule(
+  '../test-files/render-manifest-module.js',
+  import.meta.url
+);
+
+const elementsModule = fileURLToPath(
+  new URL('../test-files/render-manifest-elements.js', import.meta.url)
+);
+
+const setup = async () => {
+  const namespace = (await appModuleImport).module
+    .namespace as typeof testModule;
+
+  return {
+    ...namespace,
+
+    /** Renders the value, and returns the manifest of the render */
+    render: async (
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      r: any,
+      renderInfo?: Partial<RenderInfo>,
+      manifest = new RenderManifest({moduleLoader: loader})
+    ) => {
+      await collectResult(namespace.render(r, {...renderInfo, manifest}));
+      return manifest;
+    },
+  };
+};
+
+test('records the rendered elements and their modules', async () => {
+  const {render, page} = await setup();
+  const manifest = await render(page, {outOfOrder: false});
+  assert.equal(manifest.elements, [
+    {tagName: 'test-manifest-card', module: elementsModule, deferred: false},
+    {tagName: 'test-manifest-badge', module: elementsModule, deferred: false},
+    {tagName: 'test-manifest-slow', module: elementsModule, deferred: false},
+    {tagName: 'test-manifest-late', module: elementsModule, deferred: false},
+  ]);
+});
+
+test('modules are unknown without a module loader', async () => {
+  const {render, nested} = await setup();
+  const manifest = await render(nested, {}, new RenderManifest());
+  assert.equal(
+    manifest.elements.map(({module}) => module),
+    [undefined, undefined]
+  );
+});
+
+test('records elements that are streamed out of order as deferred', async () => {
+  const {render, page} = await setup();
+  const manifest = await render(page);
+  assert.equal(
+    manifest.elements.map(({tagName, deferred}) => [tagName, deferred]),
+    [
+      ['test-manifest-card', false],
+      ['test-manifest-badge', false],
+      ['test-manifest-slow', true],
+      ['test-manifest-late', true],
+    ]
+  );
+});
+
+test('renders a modulepreload link for each module', async () => {
+  const {render, page} = await setup();
+  const manifest = await render(page);
+  assert.is(
+    renderModulePreloads(manifest, (path) => `/modules?path=${path}&v=1`),
+    `<link rel="modulepreload" href="/modules?path=${elementsModule}&amp;v=1">`
+  );
+});
+
+test.run();
@@ -0,0 +1,163 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {ModuleLoader} from '../../lib/module-loader.js';
+import {test} from 'uvu';
+// eslint-disable-next-line import/extensions
+import * as assert from 'uvu/assert';
+import type * as testModule from '../test-files/render-out-of-order-module.js';
+import {collectResult} from '../../lib/render-result.js';
+import type {RenderInfo} from '../../lib/render-value.js';
+
+const loader = new ModuleLoader();
+
+const appModuleImport = loader.importModule(
+  '../test-files/render-out-of-order-module.js',
+  import.meta.url
+);
+
+const setup = async () => {
+  const namespace = (await appModuleImport).module
+    .namespace as typeof testModule;
+
+  return {
+    ...namespace,
+
+    /** Renders the value in order */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    render: (r: any, renderInfo?: Partial<RenderInfo>) =>
+      collectResult(namespace.render(r, {...renderInfo, outOfOrder: false})),
+
+    /** Renders the value, with elements that wait out of order */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    renderDefault: (r: any, renderInfo?: Partial<RenderInfo>) =>
+      collectResult(namespace.render(r, renderInfo)),
+
+    /** Renders the value, with all content that waits out of order */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    renderOutOfOrder: (r: any, renderInfo?: Partial<RenderInfo>) =>
+      collectResult(namespace.render(r, {...renderInfo, outOfOrder: true})),
+  };
+};
+
+const deferredContentPattern =
+  /<template id="lit-deferred-(\d+)">([^]*?)<\/template><script>\$litSwap\(\1\)<\/script>/g;
+
+/**
+ * Replaces the placeholders in out of order output with their deferred
+ * content, like the swap script does.
+ */
+const swap = (html: string) => {
+  const content = new Map<string, string>();
+  html = html
+    .replace(/<script>\(\(\)=>\{[^]*?\}\)\(\)<\/script>/, '')
+    .replace(deferredContentPattern, (_, id, deferred) => {
+      content.set(id, deferred);
+      return '';
+    });
+  let swapped;
+  while (
+    (swapped = html.replace(
+      /<template id="lit-placeholder-(\d+)"><\/template>/,
+      (_, id) => content.get(id)!
+    )) !== html
+  ) {
+    html = swapped;
+  }
+  return html;
+};
+
+test('elements that wait for a Promise are rendered after the rest', async () => {
+  const {renderDefault, slowThenFast} = await setup();
+  const result = await renderDefault(slowThenFast);
+  assert.match(
+    result,
+    /<main><!--lit-part [^>]+--><template id="lit-placeholder-0"><\/template><!--\/lit-part--><p>between<\/p><!--lit-part [^>]+--><template id="lit-placeholder-1"><\/template><!--\/lit-part--><p>after<\/p><\/main>/
+  );
+  // The content is rendered in the order that it finishes
+  assert.ok(
+    result.indexOf('<template id="lit-deferred-1">') <
+      result.indexOf('<template id="lit-deferred-0">')
+  );
+  assert.match(result, `<template id="lit-deferred-0"><test-slow  delay="20"`);
+  assert.match(result, `<script>$litSwap(0)</script>`);
+  assert.match(result, `<script>$litSwap(1)</script>`);
+  // The swap script is only defined once
+  assert.is(result.split('window.$litSwap').length, 2);
+});
+
+test('swapped in content matches content rendered in order', async () => {
+  const {render, renderDefault, slowThenFast} = await setup();
+  assert.is(
+    swap(await renderDefault(slowThenFast)),
+    await render(slowThenFast)
+  );
+});
+
+test('elements in shadow roots are rendered out of order', async () => {
+  const {render, renderDefault, inShadowRoot} = await setup();
+  const result = await renderDefault(inShadowRoot);
+  assert.match(
+    result,
+    `<p>host</p><!--lit-part 9q0OB5mgVYg=--><!--lit-node 0--><template id="lit-placeholder-0"></template><!--/lit-part--><?><!--/lit-part--></template></test-slow-host><p>after</p>`
+  );
+  assert.is(swap(result), await render(inShadowRoot));
+});
+
+test('deferred content can contain placeholders', async () => {
+  const {render, renderDefault, nested} = await setup();
+  const result = await renderDefault(nested);
+  assert.match(
+    result,
+    /<template id="lit-deferred-0"><test-slow-parent[^]*<template id="lit-placeholder-1"><\/template>/
+  );
+  assert.is(swap(result), await render(nested));
+});
+
+test('content that does not wait is rendered in order', async () => {
+  const {render, renderDefault, fast} = await setup();
+  assert.is(await renderDefault(fast), await render(fast));
+});
+
+test('child parts that wait for a Promise are rendered in order by default', async () => {
+  const {render, renderDefault, slowUntil} = await setup();
+  const renderInfo = {asyncDirectiveTimeout: 50};
+  assert.is(
+    await renderDefault(slowUntil(), renderInfo),
+    await render(slowUntil(), renderInfo)
+  );
+});
+
+test('child parts that wait for a Promise are rendered after the rest with outOfOrder', async () => {
+  const {render, renderOutOfOrder, slowUntil} = await setup();
+  const renderInfo = {asyncDirectiveTimeout: 50};
+  const result = await renderOutOfOrder(slowUntil(), renderInfo);
+  assert.match(
+    result,
+    `<main><template id="lit-placeholder-0"></template></main><p>after</p>`
+  );
+  assert.is(swap(result), await render(slowUntil(), renderInfo));
+});
+
+test('elements are rendered in order when outOfOrder is false', async () => {
+  const {render, slowThenFast} = await setup();
+  const result = await render(slowThenFast);
+  assert.not.match(result, `lit-placeholder`);
+  assert.not.match(result, `<script>`);
+  assert.match(result, `<main><!--lit-part`);
+  assert.match(result, `loaded`);
+});
+
+test('elements are rendered in order in non-hydratable renders', async () => {
+  const {renderDefault, slowThenFast} = await setup();
+  const result = await renderDefault(slowThenFast, {hydratable: false});
+  assert.is(
+    result,
+    `<main><test-slow  delay="20" status="loaded"><template shadowroot="open" shadowrootmode="open"><span>loaded</span></template></test-slow><p>between</p><test-slow status="loaded"><template shadowroot="open" shadowrootmode="open"><span>loaded</span></template></test-slow><p>after</p></main>`
+  );
+});
+
+test.run();
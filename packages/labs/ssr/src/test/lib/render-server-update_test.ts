@@ -0,0 +1,126 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {ModuleLoader} from '../../lib/module-loader.js';
+import {test} from 'uvu';
+// eslint-disable-next-line import/extensions
+import * as assert from 'uvu/assert';
+import type * as testModule from '../test-files/render-server-update-module.js';
+import {collectResult} from '../../lib/render-result.js';
+import type {RenderResult} from '../../lib/render-result.js';
+import type {RenderInfo} from '../../index.js';
+
+const loader = new ModuleLoader();
+
+const appModuleImport = loader.importModule(
+  '../test-files/render-server-update-module.js',
+  import.meta.url
+);
+
+const setup = async () => {
+  const namespace = (await appModuleImport).module
+    .namespace as typeof testModule;
+
+  return {
+    ...namespace,
+
+    /** Renders the value, waiting for Promises in the result */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    render: (r: any) => collectResult(namespace.render(r)),
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    renderResult: (r: any, renderInfo?: Partial<RenderInfo>) =>
+      namespace.render(r, renderInfo),
+  };
+};
+
+/**
+ * Returns the content of `result` that's emitted before it waits for a
+ * Promise, and the rest of the result, which continues once it's consumed.
+ */
+const emitUntilPromise = (result: RenderResult) => {
+  const iterator = result[Symbol.iterator]();
+  let emitted = '';
+  let next = iterator.next();
+  while (!next.done && typeof next.value === 'string') {
+    emitted += next.value;
+    next = iterator.next();
+  }
+  function* rest() {
+    for (; !next.done; next = iterator.next()) {
+      yield next.value;
+    }
+  }
+  return {emitted, rest: rest()};
+};
+
+test('serverUpdate() is awaited before the element updates', async () => {
+  const {render, serverUpdate} = await setup();
+  const result = await render(serverUpdate);
+  assert.match(result, `<test-server-update  userid="1" name="User 1">`);
+  assert.match(result, `<!--lit-part-->Hello, User 1<!--/lit-part-->`);
+  assert.match(result, `<p>after</p>`);
+});
+
+test('content before the element is emitted while serverUpdate() is pending', async () => {
+  const {renderResult, serverUpdate} = await setup();
+  let emitted = '';
+  for (const chunk of renderResult(serverUpdate)) {
+    if (typeof chunk !== 'string') {
+      break;
+    }
+    emitted += chunk;
+  }
+  assert.match(emitted, `<p>before</p>`);
+  assert.not.match(emitted, `User 1`);
+});
+
+test('later siblings are emitted while a slow serverUpdate() is pending', async () => {
+  const {renderResult, slowServerUpdate, finishSlowServerUpdate} =
+    await setup();
+  const {emitted, rest} = emitUntilPromise(renderResult(slowServerUpdate));
+  assert.match(
+    emitted,
+    `<p>before</p><template id="lit-placeholder-0"></template><p>after</p>`
+  );
+  assert.not.match(emitted, `-->slow`);
+
+  finishSlowServerUpdate();
+  assert.match(
+    await collectResult(rest),
+    /<template id="lit-deferred-0"><test-slow-server-update>.*slow.*<\/test-slow-server-update><\/template><script>\$litSwap\(0\)<\/script>/
+  );
+});
+
+test('later siblings wait for a slow serverUpdate() when outOfOrder is false', async () => {
+  const {renderResult, slowServerUpdate, finishSlowServerUpdate} =
+    await setup();
+  const {emitted, rest} = emitUntilPromise(
+    renderResult(slowServerUpdate, {outOfOrder: false})
+  );
+  assert.match(emitted, `<p>before</p>`);
+  assert.not.match(emitted, `-->slow`);
+  assert.not.match(emitted, `<p>after</p>`);
+
+  finishSlowServerUpdate();
+  const result = emitted + (await collectResult(rest));
+  assert.match(
+    result,
+    /<test-slow-server-update>.*slow.*<\/test-slow-server-update><p>after<\/p>/
+  );
+});
+
+test('serverUpdate() errors reject the render', async () => {
+  const {render, failedServerUpdate} = await setup();
+  try {
+    await render(failedServerUpdate);
+    assert.unreachable();
+  } catch (e) {
+    assert.is((e as Error).message, 'serverUpdate failed');
+  }
+});
+
+test.run();
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {ModuleLoader} from '../../lib/module-loader.js';
+import {test} from 'uvu';
+// eslint-disable-next-line import/extensions
+import * as assert from 'uvu/assert';
+import type * as testModule from '../test-files/render-task-module.js';
+import {collectResult} from '../../lib/render-result.js';
+import type {RenderInfo} from '../../index.js';
+
+// Tasks need AbortController, which isn't a JS built-in
+const loader = new ModuleLoader({global: {AbortController}});
+
+const appModuleImport = loader.importModule(
+  '../test-files/render-task-module.js',
+  import.meta.url
+);
+
+const setup = async () => {
+  const namespace = (await appModuleImport).module
+    .namespace as typeof testModule;
+
+  return {
+    ...namespace,
+
+    /** Renders the value, waiting for Promises in the result */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    render: (r: any, renderInfo?: Partial<RenderInfo>) =>
+      collectResult(namespace.render(r, renderInfo)),
+  };
+};
+
+test('tasks with awaitOnServer are awaited and serialized', async () => {
+  const {render, serverTask} = await setup();
+  const result = await render(serverTask);
+  assert.match(
+    result,
+    `<test-server-task  name="Ann" hydrate-task-values="[{&quot;value&quot;:{&quot;greeting&quot;:&quot;Hello, Ann&quot;}},null]">`
+  );
+  // Only the awaited task that runs automatically renders its value
+  assert.match(
+    result,
+    `<!--lit-part-->Hello, Ann<!--/lit-part--><!--lit-part--><!--/lit-part--><!--lit-part--><!--/lit-part-->`
+  );
+});
+
+test('tasks that fail on the server are not serialized', async () => {
+  const {render, failedServerTask} = await setup();
+  const result = await render(failedServerTask);
+  assert.match(
+    result,
+    `<test-failed-server-task hydrate-task-values="[null]">`
+  );
+  assert.match(result, `<!--lit-part-->Error<!--/lit-part-->`);
+});
+
+test('non-hydratable renders await tasks without serializing them', async () => {
+  const {render, serverTask} = await setup();
+  const result = await render(serverTask, {hydratable: false});
+  assert.match(result, `<test-server-task  name="Ann">`);
+  assert.not.match(result, `hydrate-task-values`);
+  assert.match(result, `Hello, Ann`);
+});
+
+test.run();
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {html} from 'lit';
+import {until} from 'lit/directives/until.js';
+import {asyncReplace} from 'lit/directives/async-replace.js';
+import {asyncAppend} from 'lit/directives/async-append.js';
+
+export {render} from '../../lib/render-lit-html.js';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const resolvesAfter = async <T>(ms: number, value: T) => {
+  await delay(ms);
+  return value;
+};
+
+export async function* values(ms = 0) {
+  yield 'first';
+  await delay(ms);
+  yield 'second';
+}
+
+// prettier-ignore
+export const untilTemplate = (promise: Promise<unknown>) => html`<p>${until(promise, 'Loading')}</p>`;
+
+// prettier-ignore
+export const untilNoFallback = (promise: Promise<unknown>) => html`<p>${until(promise)}</p>`;
+
+// prettier-ignore
+export const asyncReplaceTemplate = (iterable: AsyncIterable<unknown>) => html`<p>${asyncReplace(iterable, (v) => html`<b>${v}</b>`)}</p>`;
+
+// prettier-ignore
+export const asyncAppendTemplate = (iterable: AsyncIterable<unknown>) => html`<p>${asyncAppend(iterable)}</p>`;
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {html, LitElement} from 'lit';
+import {customElement} from 'lit/decorators.js';
+import {
+  consume,
+  createContext,
+  ContextConsumer,
+  ContextProvider,
+  provide,
+} from '@lit/context';
+
+export {render} from '../../lib/render-lit-html.js';
+
+const nameContext = createContext<string>('name');
+const greetingContext = createContext<string>('greeting');
+
+@customElement('test-context-provider')
+export class TestContextProvider extends LitElement {
+  @provide({context: nameContext})
+  name = 'Ann';
+
+  override render() {
+    return html`<test-context-consumer></test-context-consumer><slot></slot>`;
+  }
+}
+
+@customElement('test-context-nested-provider')
+export class TestContextNestedProvider extends LitElement {
+  protected greeting = new ContextProvider(this, {
+    context: greetingContext,
+    initialValue: 'Hello',
+  });
+
+  override render() {
+    return html`<slot></slot>`;
+  }
+}
+
+@customElement('test-context-consumer')
+export class TestContextConsumer extends LitElement {
+  @consume({context: nameContext})
+  name?: string;
+
+  private _greeting = new ContextConsumer(this, {context: greetingContext});
+
+  override render() {
+    return html`${this._greeting.value ?? 'Hi'}, ${this.name ?? 'nobody'}`;
+  }
+}
+
+// prettier-ignore
+export const providedInShadowRoot = html`<test-context-provider></test-context-provider>`;
+
+// prettier-ignore
+export const providedInLightDom = html`<test-context-provider><test-context-nested-provider><test-context-consumer></test-context-consumer></test-context-nested-provider></test-context-provider>`;
+
+// prettier-ignore
+export const notProvided = html`<test-context-consumer></test-context-consumer>`;
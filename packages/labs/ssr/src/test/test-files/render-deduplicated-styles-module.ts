@@ -0,0 +1,39 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {html, css, LitElement} from 'lit';
+import {customElement} from 'lit/decorators.js';
+
+export {render} from '../../lib/render-lit-html.js';
+
+@customElement('test-styled-card')
+export class TestStyledCard extends LitElement {
+  static override styles = css`
+    :host {
+      display: block;
+    }
+  `;
+
+  override render() {
+    return html`<p>card</p>`;
+  }
+}
+
+@customElement('test-styled-badge')
+export class TestStyledBadge extends LitElement {
+  static override styles = css`
+    p::after {
+      content: '</style></script>';
+    }
+  `;
+
+  override render() {
+    return html`<p>badge</p>`;
+  }
+}
+
+// prettier-ignore
+export const cards = html`<test-styled-card></test-styled-card><test-styled-badge></test-styled-badge><test-styled-card></test-styled-card><test-styled-card></test-styled-card>`;
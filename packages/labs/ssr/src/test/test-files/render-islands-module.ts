@@ -0,0 +1,26 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {html, LitElement} from 'lit';
+import {customElement} from 'lit/decorators.js';
+
+export {render} from '../../lib/render-lit-html.js';
+
+@customElement('test-island')
+export class TestIsland extends LitElement {
+  override render() {
+    return html`<p>island</p>`;
+  }
+}
+
+// prettier-ignore
+export const island = html`<test-island hydrate-on="visible"></test-island>`;
+
+// prettier-ignore
+export const boundIsland = (trigger: string) => html`<test-island hydrate-on=${trigger}></test-island>`;
+
+// prettier-ignore
+export const notIsland = html`<test-island></test-island>`;
@@ -0,0 +1,32 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {html, LitElement} from 'lit';
+import {customElement} from 'lit/decorators.js';
+
+@customElement('test-manifest-card')
+export class TestManifestCard extends LitElement {
+  override render() {
+    return html`<test-manifest-badge></test-manifest-badge>`;
+  }
+}
+
+@customElement('test-manifest-badge')
+export class TestManifestBadge extends LitElement {}
+
+@customElement('test-manifest-slow')
+export class TestManifestSlow extends LitElement {
+  async serverUpdate() {
+    await new Promise((resolve) => setTimeout(resolve));
+  }
+
+  override render() {
+    return html`<test-manifest-late></test-manifest-late>`;
+  }
+}
+
+@customElement('test-manifest-late')
+export class TestManifestLate extends LitElement {}
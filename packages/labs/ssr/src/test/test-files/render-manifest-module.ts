@@ -0,0 +1,17 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {html} from 'lit';
+
+export {render} from '../../lib/render-lit-html.js';
+// Re-exported, so that the manifest must find the defining module
+export * from './render-manifest-elements.js';
+
+// prettier-ignore
+export const page = html`<test-manifest-card></test-manifest-card>${html`<test-manifest-slow></test-manifest-slow>`}`;
+
+// prettier-ignore
+export const nested = html`<div>${html`<test-manifest-card></test-manifest-card>`}</div>`;
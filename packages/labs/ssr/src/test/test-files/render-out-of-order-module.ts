@@ -0,0 +1,56 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {html, LitElement} from 'lit';
+import {property, customElement} from 'lit/decorators.js';
+import {until} from 'lit/directives/until.js';
+
+export {render} from '../../lib/render-lit-html.js';
+
+@customElement('test-slow')
+export class TestSlow extends LitElement {
+  @property({type: Number}) delay = 0;
+  @property({reflect: true}) status = 'loading';
+
+  async serverUpdate() {
+    await new Promise((resolve) => setTimeout(resolve, this.delay));
+    this.status = 'loaded';
+  }
+
+  override render() {
+    return html`<span>${this.status}</span>`;
+  }
+}
+
+@customElement('test-slow-host')
+export class TestSlowHost extends LitElement {
+  override render() {
+    // prettier-ignore
+    return html`<p>host</p>${html`<test-slow></test-slow>`}`;
+  }
+}
+
+@customElement('test-slow-parent')
+export class TestSlowParent extends TestSlow {
+  override render() {
+    return html`<test-slow></test-slow>`;
+  }
+}
+
+// prettier-ignore
+export const slowThenFast = html`<main>${html`<test-slow delay="20"></test-slow>`}<p>between</p>${html`<test-slow></test-slow>`}<p>after</p></main>`;
+
+// prettier-ignore
+export const inShadowRoot = html`<test-slow-host></test-slow-host><p>after</p>`;
+
+// prettier-ignore
+export const nested = html`<test-slow-parent delay="10"></test-slow-parent>`;
+
+// prettier-ignore
+export const slowUntil = () => html`<main>${until(new Promise((resolve) => setTimeout(() => resolve('loaded'), 10)), 'loading')}</main><p>after</p>`;
+
+// prettier-ignore
+export const fast = html`<main>${html`<p>fast</p>`}</main>`;
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {html, LitElement, PropertyValues} from 'lit';
+import {property, customElement} from 'lit/decorators.js';
+
+export {render} from '../../lib/render-lit-html.js';
+
+const fetchUser = async (id: number) => {
+  await new Promise((resolve) => setTimeout(resolve));
+  return {id, name: `User ${id}`};
+};
+
+@customElement('test-server-update')
+export class TestServerUpdate extends LitElement {
+  @property({type: Number}) userId = 0;
+  @property({reflect: true}) name?: string;
+  greeting = '';
+
+  async serverUpdate() {
+    const user = await fetchUser(this.userId);
+    this.name = user.name;
+  }
+
+  override willUpdate(changedProperties: PropertyValues<this>) {
+    if (changedProperties.has('name')) {
+      this.greeting = `Hello, ${this.name}`;
+    }
+  }
+
+  override render() {
+    return html`${this.greeting}`;
+  }
+}
+
+@customElement('test-failed-server-update')
+export class TestFailedServerUpdate extends LitElement {
+  async serverUpdate() {
+    throw new Error('serverUpdate failed');
+  }
+}
+
+let resolveSlowUpdate!: () => void;
+
+/** Resolves the pending `serverUpdate()` of `test-slow-server-update` */
+export const finishSlowServerUpdate = () => resolveSlowUpdate();
+
+@customElement('test-slow-server-update')
+export class TestSlowServerUpdate extends LitElement {
+  serverUpdate() {
+    return new Promise<void>((resolve) => (resolveSlowUpdate = resolve));
+  }
+
+  override render() {
+    return html`slow`;
+  }
+}
+
+// prettier-ignore
+export const slowServerUpdate = html`<p>before</p><test-slow-server-update></test-slow-server-update><p>after</p>`;
+
+// prettier-ignore
+export const serverUpdate = html`<p>before</p><test-server-update userid="1"></test-server-update><p>after</p>`;
+
+// prettier-ignore
+export const failedServerUpdate = html`<test-failed-server-update></test-failed-server-update>`;
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {html, LitElement} from 'lit';
+import {property, customElement} from 'lit/decorators.js';
+import {Task} from '@lit/task';
+
+export {render} from '../../lib/render-lit-html.js';
+
+@customElement('test-server-task')
+export class TestServerTask extends LitElement {
+  @property() name = '';
+
+  private _greeting = new Task(this, {
+    task: async ([name]) => ({greeting: `Hello, ${name}`}),
+    args: () => [this.name],
+    awaitOnServer: true,
+  });
+
+  private _notAwaited = new Task(this, {
+    task: async () => 'not awaited',
+    args: () => [],
+  });
+
+  private _manual = new Task(this, {
+    task: async () => 'manual',
+    args: () => [],
+    autoRun: false,
+    awaitOnServer: true,
+  });
+
+  override render() {
+    return html`${this._greeting.render({
+      pending: () => 'Loading',
+      complete: ({greeting}) => greeting,
+    })}${this._notAwaited.value}${this._manual.value}`;
+  }
+}
+
+@customElement('test-failed-server-task')
+export class TestFailedServerTask extends LitElement {
+  private _task = new Task(this, {
+    task: async () => {
+      throw new Error('failed');
+    },
+    args: () => [],
+    awaitOnServer: true,
+  });
+
+  override render() {
+    return this._task.render({
+      error: () => 'Error',
+    });
+  }
+}
+
+// prettier-ignore
+export const serverTask = html`<test-server-task name="Ann"></test-server-task>`;
+
+// prettier-ignore
+export const failedServerTask = html`<test-failed-server-task></test-failed-server-task>`;
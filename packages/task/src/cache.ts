@@ -0,0 +1,225 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+import {initialState} from './task.js';
+
+export interface TaskCacheOptions<T extends ReadonlyArray<unknown>> {
+  /**
+   * How long cached values are fresh, in milliseconds. Defaults to `Infinity`.
+   *
+   * Tasks don't use expired values, except to show while they re-run in
+   * stale-while-revalidate mode.
+   */
+  ttl?: number;
+
+  /**
+   * Returns the cache key for a task's args. Args with the same key share a
+   * cache entry.
+   *
+   * The default is `JSON.stringify()`, which works for args that are
+   * primitives or plain objects and arrays.
+   */
+  key?: (args: T) => string;
+}
+
+interface CacheEntry<R> {
+  // The pending task function call that will produce the value, if there is
+  // one
+  promise?: Promise<R | typeof initialState>;
+  // The signal of the task run that's making the call
+  signal?: AbortSignal;
+  value?: R;
+  // When the value was stored, or undefined if there's no value yet
+  time?: number;
+}
+
+/**
+ * Rejects with the abort reason if `signal` aborts before `promise` settles.
+ */
+const raceAbort = <R>(promise: Promise<R>, signal: AbortSignal) =>
+  new Promise<R>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, {once: true});
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+
+/**
+ * A cache of task values keyed by task args, which can be shared across Task
+ * instances and elements with the Task `cache` option.
+ *
+ * Tasks that use a cache complete immediately with the cached value for their
+ * args if there is a fresh one. Tasks that run with the same args at the same
+ * time share one call of the task function, so the task functions of Tasks
+ * that share a cache should produce the same value for the same args.
+ *
+ * @example
+ *
+ * ```ts
+ * const userCache = new TaskCache<[number], User>({ttl: 60_000});
+ *
+ * class UserName extends LitElement {
+ *   @property({type: Number}) userId = 0;
+ *
+ *   private _user = new Task(this, {
+ *     task: ([userId], {signal}) => fetchUser(userId, signal),
+ *     args: () => [this.userId],
+ *     cache: userCache,
+ *   });
+ * }
+ * ```
+ */
+export class TaskCache<
+  T extends ReadonlyArray<unknown> = ReadonlyArray<unknown>,
+  R = unknown,
+> {
+  /**
+   * How long cached values are fresh, in milliseconds.
+   */
+  readonly ttl: number;
+
+  private readonly _key: (args: T) => string;
+  private readonly _entries = new Map<string, CacheEntry<R>>();
+  private readonly _subscribers = new Set<
+    (matches: (args: T) => boolean) => void
+  >();
+
+  constructor(options?: TaskCacheOptions<T>) {
+    this.ttl = options?.ttl ?? Infinity;
+    this._key = options?.key ?? JSON.stringify;
+  }
+
+  /**
+   * Returns true if there is a fresh cached value for `args`.
+   */
+  has(args: T) {
+    const time = this._entries.get(this._key(args))?.time;
+    return time !== undefined && Date.now() - time < this.ttl;
+  }
+
+  /**
+   * Returns the fresh cached value for `args`, or `undefined` if there isn't
+   * one.
+   */
+  get(args: T): R | undefined {
+    return this.has(args)
+      ? this._entries.get(this._key(args))!.value
+      : undefined;
+  }
+
+  /**
+   * Returns the cached value for `args` even if it has expired, or `undefined`
+   * if there isn't one.
+   *
+   * @internal
+   */
+  _$getStale(args: T): {value: R} | undefined {
+    const entry = this._entries.get(this._key(args));
+    return entry?.time === undefined ? undefined : {value: entry.value!};
+  }
+
+  /**
+   * Stores `value` as the fresh value for `args`.
+   */
+  set(args: T, value: R) {
+    this._entries.set(this._key(args), {value, time: Date.now()});
+  }
+
+  /**
+   * Removes the cached value for `args`, or all cached values if `args` isn't
+   * given.
+   *
+   * Connected Tasks that use this cache and whose last run used the
+   * invalidated args are run again.
+   */
+  invalidate(args?: T) {
+    let matches: (args: T) => boolean;
+    if (args === undefined) {
+      this._entries.clear();
+      matches = () => true;
+    } else {
+      const key = this._key(args);
+      this._entries.delete(key);
+      matches = (args) => this._key(args) === key;
+    }
+    for (const subscriber of this._subscribers) {
+      subscriber(matches);
+    }
+  }
+
+  /**
+   * Calls `callback` when entries are invalidated, with a function that
+   * returns whether args match the invalidated entries. Returns a function
+   * that unsubscribes.
+   *
+   * @internal
+   */
+  _$subscribe(callback: (matches: (args: T) => boolean) => void) {
+    this._subscribers.add(callback);
+    return () => this._subscribers.delete(callback);
+  }
+
+  /**
+   * Calls `taskFunction` to produce the value for `args` and caches it, unless
+   * there is a pending call for the same args already, in which case the
+   * result of that call is returned instead.
+   *
+   * @internal
+   */
+  async _$run(
+    args: T,
+    signal: AbortSignal,
+    taskFunction: () => Promise<R | typeof initialState>
+  ): Promise<R | typeof initialState> {
+    const key = this._key(args);
+    const pending = this._entries.get(key);
+    if (pending?.promise !== undefined) {
+      try {
+        return await raceAbort(pending.promise, signal);
+      } catch (e) {
+        // If the task run that made the call was aborted, but this one wasn't,
+        // make a new call for this run
+        if (signal.aborted || !pending.signal!.aborted) {
+          throw e;
+        }
+      }
+    }
+    // Keep any expired value so that it can be shown while it's revalidated
+    const entry: CacheEntry<R> = {
+      promise: taskFunction(),
+      signal,
+      value: pending?.value,
+      time: pending?.time,
+    };
+    this._entries.set(key, entry);
+    try {
+      const value = await entry.promise!;
+      if (this._entries.get(key) === entry) {
+        if (value === initialState) {
+          this._entries.delete(key);
+        } else {
+          this._entries.set(key, {value, time: Date.now()});
+        }
+      }
+      return value;
+    } catch (e) {
+      // Don't cache failures, but keep the previous value, which can still be
+      // shown while it's revalidated again
+      if (this._entries.get(key) === entry) {
+        if (entry.time === undefined) {
+          this._entries.delete(key);
+        } else {
+          this._entries.set(key, {value: entry.value, time: entry.time});
+        }
+      }
+      throw e;
+    }
+  }
+}
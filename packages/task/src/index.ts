@@ -4,3 +4,4 @@
  * SPDX-License-Identifier: BSD-3-Clause
  */
 export * from './task.js';
+export * from './cache.js';
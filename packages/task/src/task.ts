@@ -5,6 +5,7 @@
  */
 import {notEqual} from '@lit/reactive-element';
 import {ReactiveControllerHost} from '@lit/reactive-element/reactive-controller.js';
+import type {TaskCache} from './cache.js';
 
 export interface TaskFunctionOptions {
   signal: AbortSignal;
@@ -13,12 +14,35 @@ export interface TaskFunctionOptions {
 export type TaskFunction<D extends ReadonlyArray<unknown>, R = unknown> = (
   args: D,
   options: TaskFunctionOptions
-) => R | typeof initialState | Promise<R | typeof initialState>;
+) =>
+  | R
+  | typeof initialState
+  | Promise<R | typeof initialState>
+  | AsyncIterable<R>;
 export type ArgsFunction<D extends ReadonlyArray<unknown>> = () => D;
 
 // `DepsFunction` is being maintained for BC with its previous name.
 export {ArgsFunction as DepsFunction};
 
+/**
+ * The functions that run a host's `awaitOnServer` tasks during SSR, which
+ * resolve to the task's value if it completed.
+ */
+interface TaskHost extends ReactiveControllerHost {
+  _$litTasks$?: Array<() => Promise<{value: unknown} | undefined>>;
+}
+
+// The attribute that server-rendered hosts store their tasks' values in, as a
+// JSON array by task index. Keep in sync with @lit-labs/ssr.
+const taskValuesAttribute = 'hydrate-task-values';
+
+// Parsed task values of hosts, which are shared by the tasks of a host since
+// the attribute is removed once it's read
+const hydrationValues = new WeakMap<
+  ReactiveControllerHost,
+  Array<{value?: unknown} | null>
+>();
+
 /**
  * States for task status
  */
@@ -27,6 +51,9 @@ export const TaskStatus = {
   PENDING: 1,
   COMPLETE: 2,
   ERROR: 3,
+  // A streaming task's async iterable has yielded a value and hasn't finished
+  // yet
+  STREAMING: 4,
 } as const;
 
 /**
@@ -42,8 +69,44 @@ export type StatusRenderer<R> = {
   pending?: () => unknown;
   complete?: (value: R) => unknown;
   error?: (error: unknown) => unknown;
+  /**
+   * Renders the latest value of a task with the `stream` option that's
+   * streaming. If not given, the `complete` renderer is used.
+   */
+  streaming?: (value: R) => unknown;
 };
 
+/**
+ * Configures how a task retries task function calls that throw.
+ */
+export interface RetryConfig {
+  /**
+   * The maximum number of times to call the task function per task run,
+   * including the first call.
+   */
+  attempts: number;
+
+  /**
+   * The delay in milliseconds before each retry. Defaults to `0`.
+   *
+   * If a function, it's called with the number of the attempt that failed,
+   * starting at 1, and its error. For example, for exponential backoff:
+   *
+   * ```ts
+   * backoff: (attempt) => 2 ** attempt * 100
+   * ```
+   */
+  backoff?: number | ((attempt: number, error: unknown) => number);
+
+  /**
+   * A function that determines if a failed attempt should be retried, called
+   * with the attempt's error and number. By default, all errors are retried.
+   *
+   * Attempts are never retried once the task run is aborted.
+   */
+  retryOn?: (error: unknown, attempt: number) => boolean;
+}
+
 export interface TaskConfig<T extends ReadonlyArray<unknown>, R> {
   task: TaskFunction<T, R>;
   args?: ArgsFunction<T>;
@@ -89,6 +152,109 @@ export interface TaskConfig<T extends ReadonlyArray<unknown>, R> {
    * `true` the task will not auto-run again until the args change.
    */
   initialValue?: R;
+
+  /**
+   * Retries the task function if it throws, up to `attempts` times per run.
+   *
+   * The task stays in the PENDING status while it retries, and the host is
+   * updated before each retry so that it can render the current
+   * {@linkcode Task.attempt}. If the last attempt fails, the task reports the
+   * error from that attempt.
+   */
+  retry?: RetryConfig;
+
+  /**
+   * If `true`, a task function can return an async iterable, like an async
+   * generator, to stream values. Defaults to `false`.
+   *
+   * Each value the iterable yields updates the task's value and the host, in
+   * the STREAMING status, until the iterable is done, when the task completes
+   * with the last value. A new run or {@linkcode Task.abort} stops the stream.
+   *
+   * If `false`, an async iterable returned by the task function is the task's
+   * value, like any other value.
+   */
+  stream?: boolean;
+
+  /**
+   * If `true`, the task keeps rendering its previous value while it re-runs.
+   * Defaults to `false`.
+   *
+   * The task's status is still PENDING while it re-runs, but
+   * {@linkcode Task.render} calls the `complete` renderer with the previous
+   * value instead of the `pending` renderer, if there is a previous value.
+   * This avoids flashing a loading state when args change, for example when
+   * re-sorting or filtering a list.
+   *
+   * If the task has a {@linkcode TaskConfig.cache} with an expired value for
+   * the new args, that value is shown instead.
+   */
+  staleWhileRevalidate?: boolean;
+
+  /**
+   * A cache of values keyed by args, which can be shared with other tasks.
+   *
+   * If the cache has a fresh value for the args of a run, the task completes
+   * with that value immediately, without calling the task function. Tasks
+   * that run with the same args at the same time share one call of the task
+   * function. Only the task that made the call reports its retry attempts
+   * and streamed values; the tasks that share it stay PENDING until it
+   * completes or fails. Invalidating a cache entry re-runs the tasks that are
+   * showing it.
+   *
+   * @see {@linkcode TaskCache}
+   */
+  cache?: TaskCache<T, R>;
+
+  /**
+   * If `true`, the task runs during server-side rendering with
+   * `@lit-labs/ssr`, which waits for it before rendering the host's shadow
+   * root. Defaults to `false`.
+   *
+   * The task runs if it would run automatically on the client: when `autoRun`
+   * isn't `false` and the args function returns args. If the task completes,
+   * its value is serialized into the server-rendered HTML, and the Task on the
+   * client starts in the COMPLETE status with that value, without running
+   * again until its args change. So the value must be JSON-serializable.
+   *
+   * Errors are not serialized. A task that fails on the server runs again on
+   * the client.
+   */
+  awaitOnServer?: boolean;
+
+  /**
+   * Tasks that this task depends on, usually because its args read their
+   * values.
+   *
+   * The task only calls its task function when all of its dependencies are
+   * COMPLETE. Until then, a run leaves the task in the PENDING status, and
+   * the task runs when the dependencies complete. If a dependency fails, the
+   * task moves to the ERROR status with the dependency's error, and if a
+   * dependency's task function returns `initialState`, the task returns to the
+   * INITIAL status too. If a dependency runs again, the task's current run is
+   * aborted, and it waits for the dependency again.
+   *
+   * Dependencies are only tracked while the host is connected, and only
+   * after the task has run for the first time. Tasks whose `autoRun` is
+   * `false` don't run again when a dependency completes or fails, unless
+   * they're running or waiting for their dependencies.
+   *
+   * @example
+   *
+   * ```ts
+   * private _user = new Task(this, {
+   *   task: ([userId]) => fetchUser(userId),
+   *   args: () => [this.userId],
+   * });
+   *
+   * private _projects = new Task(this, {
+   *   task: ([user]) => fetchProjects(user!.id),
+   *   args: () => [this._user.value],
+   *   dependencies: [this._user],
+   * });
+   * ```
+   */
+  dependencies?: ReadonlyArray<AnyTask>;
   onComplete?: (value: R) => unknown;
   onError?: (error: unknown) => unknown;
 }
@@ -170,6 +336,8 @@ export class Task<
   R = unknown,
 > {
   private _previousArgs?: T;
+  // The args passed to run(), which runs for dependency changes reuse
+  private _runArgs?: T;
   private _task: TaskFunction<T, R>;
   private _argsFn?: ArgsFunction<T>;
   private _argsEqual: (oldArgs: T, newArgs: T) => boolean;
@@ -180,7 +348,21 @@ export class Task<
   private _abortController?: AbortController;
   private _onComplete?: (result: R) => unknown;
   private _onError?: (error: unknown) => unknown;
+  private _retry?: RetryConfig;
+  private _attempt = 0;
+  private _streamResults: boolean;
+  private _cache?: TaskCache<T, R>;
+  private _unsubscribeCache?: () => void;
+  private _staleWhileRevalidate: boolean;
+  // Whether _value is the value of a completed run, which may be stale
+  private _hasValue = false;
   private _status: TaskStatus = TaskStatus.INITIAL;
+  // The index of this task in its host's server tasks, if it's awaited on the
+  // server
+  private _serverIndex?: number;
+  private _dependencies?: ReadonlyArray<AnyTask>;
+  // Called when this task's status changes, by the tasks that depend on it
+  private _dependents = new Set<() => void>();
 
   /**
    * Determines if the task is run automatically when arguments change after a
@@ -206,7 +388,7 @@ export class Task<
 
     // Generate an in-progress promise if the status is pending and has been
     // cleared by .run().
-    if (this._status === TaskStatus.PENDING) {
+    if (this._isRunning()) {
       this._taskComplete = new Promise((res, rej) => {
         this._resolveTaskComplete = res;
         this._rejectTaskComplete = rej;
@@ -238,7 +420,7 @@ export class Task<
     task: TaskFunction<T, R> | TaskConfig<T, R>,
     args?: ArgsFunction<T>
   ) {
-    (this._host = host).addController(this);
+    this._host = host;
     const taskConfig =
       typeof task === 'object' ? task : ({task, args} as TaskConfig<T, R>);
     this._task = taskConfig.task;
@@ -246,14 +428,55 @@ export class Task<
     this._argsEqual = taskConfig.argsEqual ?? shallowArrayEquals;
     this._onComplete = taskConfig.onComplete;
     this._onError = taskConfig.onError;
+    this._retry = taskConfig.retry;
+    this._streamResults = taskConfig.stream ?? false;
+    this._cache = taskConfig.cache;
+    this._staleWhileRevalidate = taskConfig.staleWhileRevalidate ?? false;
     this.autoRun = taskConfig.autoRun ?? true;
+    this._dependencies = taskConfig.dependencies;
+    if (taskConfig.awaitOnServer) {
+      this._registerServerTask();
+    }
     // Providing initialValue puts the task in COMPLETE state and stores the
     // args immediately so it only runs when they change again.
     if ('initialValue' in taskConfig) {
       this._value = taskConfig.initialValue;
+      this._hasValue = true;
       this._status = TaskStatus.COMPLETE;
       this._previousArgs = this._getArgs?.();
     }
+    // Hosts that are already connected call hostConnected() immediately, which
+    // needs the config
+    host.addController(this);
+  }
+
+  hostConnected() {
+    if (this._serverIndex !== undefined) {
+      this._hydrateServerValue(this._serverIndex);
+    }
+    this._unsubscribeCache = this._cache?._$subscribe((matches) => {
+      // Re-run with the args of the invalidated value
+      const args = this._previousArgs;
+      if (
+        this.autoRun !== false &&
+        this._status !== TaskStatus.INITIAL &&
+        args !== undefined &&
+        matches(args)
+      ) {
+        this._run(args);
+      }
+    });
+    for (const dependency of this._dependencies ?? []) {
+      dependency._dependents.add(this._onDependencyChange);
+    }
+  }
+
+  hostDisconnected() {
+    this._unsubscribeCache?.();
+    this._unsubscribeCache = undefined;
+    for (const dependency of this._dependencies ?? []) {
+      dependency._dependents.delete(this._onDependencyChange);
+    }
   }
 
   hostUpdate() {
@@ -268,6 +491,60 @@ export class Task<
     }
   }
 
+  /**
+   * Adds a function to the host that runs this task during SSR, and records
+   * this task's position among the host's tasks so that the client can find
+   * its serialized value.
+   */
+  private _registerServerTask() {
+    const host = this._host as TaskHost;
+    const tasks = (host['_$litTasks$'] ??= []);
+    this._serverIndex = tasks.length;
+    tasks.push(async () => {
+      // Dependencies aren't tracked on the server, where hosts don't connect,
+      // so wait for any that are running first
+      await Promise.allSettled(
+        this._dependencies?.map((dependency) => dependency.taskComplete) ?? []
+      );
+      const args = this._getArgs();
+      if (this.autoRun !== false && args !== undefined) {
+        await this.run(args);
+      }
+      return this._status === TaskStatus.COMPLETE
+        ? {value: this._value}
+        : undefined;
+    });
+  }
+
+  /**
+   * Completes the task with its value from server-rendered HTML, if there is
+   * one.
+   */
+  private _hydrateServerValue(index: number) {
+    const host = this._host as TaskHost & Partial<Element>;
+    let values = hydrationValues.get(host);
+    if (values === undefined) {
+      const attribute = host.getAttribute?.(taskValuesAttribute);
+      if (attribute == null) {
+        return;
+      }
+      values = JSON.parse(attribute) as Array<{value?: unknown} | null>;
+      hydrationValues.set(host, values);
+      host.removeAttribute!(taskValuesAttribute);
+    }
+    const serverValue = values[index];
+    // Each value is only used once, not when the host reconnects
+    values[index] = null;
+    // Like initialValue, this stores the args so that the task only runs when
+    // they change
+    if (serverValue != null && this._status === TaskStatus.INITIAL) {
+      this._value = serverValue.value as R;
+      this._hasValue = true;
+      this._status = TaskStatus.COMPLETE;
+      this._previousArgs = this._getArgs();
+    }
+  }
+
   private _getArgs() {
     if (this._argsFn === undefined) {
       return undefined;
@@ -297,7 +574,8 @@ export class Task<
       args !== undefined &&
       (prev === undefined || !this._argsEqual(prev, args))
     ) {
-      await this.run(args);
+      this._runArgs = undefined;
+      await this._run(args);
     }
   }
 
@@ -309,16 +587,22 @@ export class Task<
    *
    * @param args an optional set of arguments to use for this task run. If args
    *     is not given, the args function is called to get the arguments for
-   *     this run.
+   *     this run. Runs for changes to the task's dependencies use the same
+   *     args.
    */
   async run(args?: T) {
+    this._runArgs = args;
+    await this._run(args);
+  }
+
+  private async _run(args?: T) {
     args ??= this._getArgs();
 
     // Remember the args for potential future automatic runs.
     // TODO (justinfagnani): add test
     this._previousArgs = args;
 
-    if (this._status === TaskStatus.PENDING) {
+    if (this._isRunning()) {
       this._abortController?.abort();
     } else {
       // Clear the last complete task run in INITIAL because it may be a resolved
@@ -329,23 +613,80 @@ export class Task<
       this._rejectTaskComplete = undefined;
     }
 
+    const key = ++this._callId;
+    const cache = this._cache;
+
+    const dependencies = this._dependencies;
+    if (dependencies !== undefined) {
+      const failed = dependencies.find(
+        (dependency) => dependency._status === TaskStatus.ERROR
+      );
+      if (failed !== undefined) {
+        this._fail(failed._error);
+        this._requestUpdate();
+        this._notifyDependents();
+        return;
+      }
+      if (
+        dependencies.some(
+          (dependency) =>
+            dependency._status !== TaskStatus.COMPLETE &&
+            !dependency._isSettledInitial()
+        )
+      ) {
+        // Wait in the pending state. The task runs again when the
+        // dependencies change.
+        this._status = TaskStatus.PENDING;
+        this._requestUpdate();
+        this._notifyDependents();
+        return;
+      }
+      if (dependencies.some((dependency) => dependency._isSettledInitial())) {
+        // A dependency that ran and returned to the INITIAL status has no
+        // value to run with, so the task returns to INITIAL too, like a task
+        // function that returns `initialState`
+        this._status = TaskStatus.INITIAL;
+        this._hasValue = false;
+        this._requestUpdate();
+        this._notifyDependents();
+        return;
+      }
+    }
+
+    if (cache !== undefined && cache.has(args!)) {
+      // A fresh cached value completes the task without calling the task
+      // function, and without a pending state.
+      this._complete(cache.get(args!)!);
+      this._requestUpdate();
+      this._notifyDependents();
+      return;
+    }
+
+    if (this._staleWhileRevalidate) {
+      // An expired cached value for the new args is better to show than the
+      // value for the previous args
+      const cached = cache?._$getStale(args!);
+      if (cached !== undefined) {
+        this._value = cached.value;
+        this._hasValue = true;
+      }
+    }
+
     this._status = TaskStatus.PENDING;
     let result!: R | typeof initialState;
     let error: unknown;
 
     // Request an update to report pending state.
-    if (this.autoRun === 'afterUpdate') {
-      // Avoids a change-in-update warning
-      queueMicrotask(() => this._host.requestUpdate());
-    } else {
-      this._host.requestUpdate();
-    }
+    this._requestUpdate();
+    this._notifyDependents();
 
-    const key = ++this._callId;
     this._abortController = new AbortController();
+    const {signal} = this._abortController;
     let errored = false;
     try {
-      result = await this._task(args!, {signal: this._abortController.signal});
+      result = await (cache === undefined
+        ? this._callTask(args!, key, signal)
+        : cache._$run(args!, signal, () => this._callTask(args!, key, signal)));
     } catch (e) {
       errored = true;
       error = e;
@@ -354,32 +695,175 @@ export class Task<
     if (this._callId === key) {
       if (result === initialState) {
         this._status = TaskStatus.INITIAL;
+        this._hasValue = false;
+      } else if (errored === false) {
+        this._complete(result as R);
       } else {
-        if (errored === false) {
-          try {
-            this._onComplete?.(result as R);
-          } catch {
-            // Ignore user errors from onComplete.
-          }
-          this._status = TaskStatus.COMPLETE;
-          this._resolveTaskComplete?.(result as R);
-        } else {
-          try {
-            this._onError?.(error);
-          } catch {
-            // Ignore user errors from onError.
-          }
-          this._status = TaskStatus.ERROR;
-          this._rejectTaskComplete?.(error);
-        }
-        this._value = result as R;
-        this._error = error;
+        this._fail(error);
       }
       // Request an update with the final value.
       this._host.requestUpdate();
+      this._notifyDependents();
+    }
+  }
+
+  private _requestUpdate() {
+    if (this.autoRun === 'afterUpdate') {
+      // Avoids a change-in-update warning
+      queueMicrotask(() => this._host.requestUpdate());
+    } else {
+      this._host.requestUpdate();
+    }
+  }
+
+  private _complete(value: R) {
+    try {
+      this._onComplete?.(value);
+    } catch {
+      // Ignore user errors from onComplete.
+    }
+    this._status = TaskStatus.COMPLETE;
+    this._resolveTaskComplete?.(value);
+    this._value = value;
+    this._hasValue = true;
+    this._error = undefined;
+  }
+
+  private _fail(error: unknown) {
+    try {
+      this._onError?.(error);
+    } catch {
+      // Ignore user errors from onError.
+    }
+    this._status = TaskStatus.ERROR;
+    this._rejectTaskComplete?.(error);
+    this._value = undefined;
+    this._hasValue = false;
+    this._error = error;
+  }
+
+  private _notifyDependents() {
+    for (const dependent of this._dependents) {
+      dependent();
+    }
+  }
+
+  /**
+   * Runs the task again when a dependency starts, completes, fails, or
+   * returns to INITIAL, so that it waits for, runs with, fails with, or
+   * returns to INITIAL with the dependency. The run uses the args passed to
+   * the last call to `run()`, if any. Tasks that don't run automatically only
+   * re-run a run that's in progress.
+   */
+  private _onDependencyChange = () => {
+    if (this._callId !== 0 && (this.autoRun !== false || this._isRunning())) {
+      this._run(this._runArgs);
+    }
+  };
+
+  /**
+   * Calls the task function for the run identified by `key`, retrying it
+   * according to the retry config if it throws.
+   */
+  private async _callTask(
+    args: T,
+    key: number,
+    signal: AbortSignal
+  ): Promise<R | typeof initialState> {
+    for (let attempt = 1; ; attempt++) {
+      this._attempt = attempt;
+      try {
+        const result = await this._task(args, {signal});
+        // Without the stream option, async iterables are values
+        return this._streamResults && isAsyncIterable(result)
+          ? await this._stream(result, key, signal)
+          : (result as R | typeof initialState);
+      } catch (e) {
+        if (!this._shouldRetry(e, attempt, signal) || this._callId !== key) {
+          throw e;
+        }
+        // Rejects if the run is aborted during the backoff delay, which it is
+        // if another run starts
+        await this._waitForRetry(e, attempt, signal);
+      }
+      // Request an update to report the next attempt
+      this._host.requestUpdate();
     }
   }
 
+  /**
+   * Reads a streaming task function's values into the task for the run
+   * identified by `key`, and returns the last value.
+   */
+  private async _stream(
+    stream: AsyncIterable<R>,
+    key: number,
+    signal: AbortSignal
+  ) {
+    let value: R | undefined;
+    // Breaking out of the loop calls the stream's return(), which finishes
+    // an async generator
+    for await (value of stream) {
+      if (this._callId !== key || signal.aborted) {
+        break;
+      }
+      this._status = TaskStatus.STREAMING;
+      this._value = value;
+      this._hasValue = true;
+      this._host.requestUpdate();
+    }
+    if (signal.aborted) {
+      throw signal.reason;
+    }
+    return value as R;
+  }
+
+  /**
+   * Whether the task ran and returned to the INITIAL status, either because
+   * its task function returned `initialState` or because a dependency did.
+   */
+  private _isSettledInitial() {
+    return this._status === TaskStatus.INITIAL && this._callId !== 0;
+  }
+
+  private _isRunning() {
+    return (
+      this._status === TaskStatus.PENDING ||
+      this._status === TaskStatus.STREAMING
+    );
+  }
+
+  private _shouldRetry(error: unknown, attempt: number, signal: AbortSignal) {
+    const retry = this._retry;
+    return (
+      retry !== undefined &&
+      attempt < retry.attempts &&
+      !signal.aborted &&
+      (retry.retryOn?.(error, attempt) ?? true)
+    );
+  }
+
+  /**
+   * Waits for the backoff delay after a failed attempt. Rejects with the abort
+   * reason if `signal` is aborted before the delay ends.
+   */
+  private _waitForRetry(error: unknown, attempt: number, signal: AbortSignal) {
+    const {backoff = 0} = this._retry!;
+    const delay =
+      typeof backoff === 'function' ? backoff(attempt, error) : backoff;
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timeout);
+        reject(signal.reason);
+      };
+      const timeout = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, delay);
+      signal.addEventListener('abort', onAbort, {once: true});
+    });
+  }
+
   /**
    * Aborts the currently pending task run by aborting the AbortSignal
    * passed to the task function.
@@ -399,7 +883,7 @@ export class Task<
    *     `AbortController.abort()`.
    */
   abort(reason?: unknown) {
-    if (this._status === TaskStatus.PENDING) {
+    if (this._isRunning()) {
       this._abortController?.abort(reason);
     }
   }
@@ -427,11 +911,29 @@ export class Task<
     return this._status;
   }
 
+  /**
+   * The number of the current task function call in the pending task run, or
+   * of the last call in the previous run, starting at 1.
+   *
+   * Is greater than 1 if the task was retried because of the
+   * {@linkcode TaskConfig.retry} option, and `0` if the task has not run yet.
+   * Isn't updated by runs that share another task's call of the task function
+   * through a {@linkcode TaskConfig.cache}.
+   */
+  get attempt() {
+    return this._attempt;
+  }
+
   render<T extends StatusRenderer<R>>(renderer: T) {
     switch (this._status) {
       case TaskStatus.INITIAL:
         return renderer.initial?.() as MaybeReturnType<T['initial']>;
       case TaskStatus.PENDING:
+        if (this._staleWhileRevalidate && this._hasValue) {
+          return renderer.complete?.(this.value!) as MaybeReturnType<
+            T['complete']
+          >;
+        }
         return renderer.pending?.() as MaybeReturnType<T['pending']>;
       case TaskStatus.COMPLETE:
         return renderer.complete?.(this.value!) as MaybeReturnType<
@@ -439,16 +941,34 @@ export class Task<
         >;
       case TaskStatus.ERROR:
         return renderer.error?.(this.error) as MaybeReturnType<T['error']>;
+      case TaskStatus.STREAMING:
+        return (renderer.streaming ?? renderer.complete)?.(
+          this.value!
+        ) as StreamingReturnType<T>;
       default:
         throw new Error(`Unexpected status: ${this._status}`);
     }
   }
 }
 
+// Tasks with any args and value can be dependencies
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyTask = Task<any, any>;
+
 type MaybeReturnType<F> = F extends (...args: never[]) => infer R
   ? R
   : undefined;
 
+type StreamingReturnType<T extends StatusRenderer<never>> =
+  T['streaming'] extends (...args: never[]) => infer R
+    ? R
+    : MaybeReturnType<T['complete']>;
+
+const isAsyncIterable = (value: unknown): value is AsyncIterable<unknown> =>
+  typeof (value as Partial<AsyncIterable<unknown>> | null)?.[
+    Symbol.asyncIterator
+  ] === 'function';
+
 export const shallowArrayEquals = <T extends ReadonlyArray<unknown>>(
   oldArgs: T,
   newArgs: T
@@ -0,0 +1,232 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import type {ReactiveControllerHost} from '@lit/reactive-element';
+import {Task, TaskCache, TaskStatus} from '@lit/task';
+import {assert} from 'chai';
+
+suite('TaskCache', () => {
+  const createHost = (): ReactiveControllerHost => ({
+    addController() {},
+    removeController() {},
+    requestUpdate() {},
+    updateComplete: Promise.resolve(true),
+  });
+
+  let calls: number;
+  const taskFunction = async ([id]: readonly [number]) => {
+    calls++;
+    await new Promise((resolve) => setTimeout(resolve));
+    return `${id}:${calls}`;
+  };
+
+  setup(() => {
+    calls = 0;
+  });
+
+  test('tasks with the same args share a task function call', async () => {
+    const cache = new TaskCache<[number], string>();
+    const task1 = new Task(createHost(), {
+      task: taskFunction,
+      autoRun: false,
+      cache,
+    });
+    const task2 = new Task(createHost(), {
+      task: taskFunction,
+      autoRun: false,
+      cache,
+    });
+    await Promise.all([task1.run([1]), task2.run([1])]);
+    assert.equal(calls, 1);
+    assert.equal(task1.value, '1:1');
+    assert.equal(task2.value, '1:1');
+    assert.isTrue(cache.has([1]));
+    assert.equal(cache.get([1]), '1:1');
+
+    // Different args have their own entry
+    await task2.run([2]);
+    assert.equal(calls, 2);
+    assert.equal(task2.value, '2:2');
+  });
+
+  test('tasks that share a call only report its result', async () => {
+    const cache = new TaskCache<[number], string>();
+    let finish!: () => void;
+    const finished = new Promise<void>((resolve) => (finish = resolve));
+    const streamingTaskFunction = async function* ([id]: readonly [number]) {
+      yield `${id}:first`;
+      await finished;
+      yield `${id}:last`;
+    };
+    const task1 = new Task(createHost(), {
+      task: streamingTaskFunction,
+      autoRun: false,
+      stream: true,
+      cache,
+    });
+    const task2 = new Task(createHost(), {
+      task: streamingTaskFunction,
+      autoRun: false,
+      stream: true,
+      cache,
+    });
+    task1.run([1]);
+    task2.run([1]);
+    await new Promise((resolve) => setTimeout(resolve));
+    // Only the task that made the call reports its attempts and values
+    assert.equal(task1.status, TaskStatus.STREAMING);
+    assert.equal(task1.value, '1:first');
+    assert.equal(task1.attempt, 1);
+    assert.equal(task2.status, TaskStatus.PENDING);
+    assert.equal(task2.value, undefined);
+    assert.equal(task2.attempt, 0);
+
+    finish();
+    assert.deepEqual(
+      await Promise.all([task1.taskComplete, task2.taskComplete]),
+      ['1:last', '1:last']
+    );
+  });
+
+  test('fresh cached values complete tasks immediately', async () => {
+    const cache = new TaskCache<[number], string>();
+    cache.set([1], 'cached');
+    const task = new Task(createHost(), {
+      task: taskFunction,
+      autoRun: false,
+      cache,
+    });
+    task.run([1]);
+    assert.equal(task.status, TaskStatus.COMPLETE);
+    assert.equal(task.value, 'cached');
+    assert.equal(await task.taskComplete, 'cached');
+    assert.equal(calls, 0);
+  });
+
+  test('expired values are not used', async () => {
+    const cache = new TaskCache<[number], string>({ttl: 10});
+    cache.set([1], 'cached');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.isFalse(cache.has([1]));
+    assert.equal(cache.get([1]), undefined);
+
+    const task = new Task(createHost(), {
+      task: taskFunction,
+      autoRun: false,
+      cache,
+      staleWhileRevalidate: true,
+    });
+    task.run([1]);
+    assert.equal(task.status, TaskStatus.PENDING);
+    // The expired value is shown while the task revalidates it
+    assert.equal(task.value, 'cached');
+    assert.equal(await task.taskComplete, '1:1');
+  });
+
+  test('failures are not cached', async () => {
+    const cache = new TaskCache<[number], string>();
+    const task = new Task(createHost(), {
+      task: async () => {
+        calls++;
+        throw new Error('error');
+      },
+      autoRun: false,
+      cache,
+    });
+    await task.run([1]);
+    assert.equal(task.status, TaskStatus.ERROR);
+    assert.isFalse(cache.has([1]));
+    await task.run([1]);
+    assert.equal(calls, 2);
+  });
+
+  test('failed revalidations keep the stale value', async () => {
+    const cache = new TaskCache<[number], string>({ttl: 10});
+    cache.set([1], 'cached');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    const failingTask = new Task(createHost(), {
+      task: async () => {
+        throw new Error('error');
+      },
+      autoRun: false,
+      cache,
+      staleWhileRevalidate: true,
+    });
+    await failingTask.run([1]);
+    assert.equal(failingTask.status, TaskStatus.ERROR);
+    assert.isFalse(cache.has([1]));
+
+    const task = new Task(createHost(), {
+      task: taskFunction,
+      autoRun: false,
+      cache,
+      staleWhileRevalidate: true,
+    });
+    task.run([1]);
+    assert.equal(task.status, TaskStatus.PENDING);
+    assert.equal(task.value, 'cached');
+    assert.equal(await task.taskComplete, '1:1');
+  });
+
+  test('invalidate() re-runs connected tasks with the invalidated args', async () => {
+    const cache = new TaskCache<[number], string>();
+    const task1 = new Task(createHost(), {
+      task: taskFunction,
+      args: (): [number] => [1],
+      cache,
+    });
+    const task2 = new Task(createHost(), {
+      task: taskFunction,
+      args: (): [number] => [2],
+      cache,
+    });
+    task1.hostConnected();
+    task2.hostConnected();
+    task1.hostUpdate();
+    task2.hostUpdate();
+    await Promise.all([task1.taskComplete, task2.taskComplete]);
+    assert.equal(calls, 2);
+
+    cache.invalidate([1]);
+    assert.isFalse(cache.has([1]));
+    assert.isTrue(cache.has([2]));
+    assert.equal(task1.status, TaskStatus.PENDING);
+    assert.equal(task2.status, TaskStatus.COMPLETE);
+    assert.equal(await task1.taskComplete, '1:3');
+
+    // Disconnected tasks aren't re-run
+    task2.hostDisconnected();
+    cache.invalidate();
+    assert.isFalse(cache.has([1]));
+    assert.equal(task1.status, TaskStatus.PENDING);
+    assert.equal(task2.status, TaskStatus.COMPLETE);
+    await task1.taskComplete;
+    assert.equal(calls, 4);
+  });
+
+  test('invalidate() re-runs tasks created on connected hosts', async () => {
+    const cache = new TaskCache<[number], string>();
+    // Like a connected ReactiveElement, which connects controllers when
+    // they're added
+    const host: ReactiveControllerHost = {
+      ...createHost(),
+      addController(controller) {
+        controller.hostConnected?.();
+      },
+    };
+    const task = new Task(host, {
+      task: taskFunction,
+      args: (): [number] => [1],
+      cache,
+    });
+    task.hostUpdate();
+    assert.equal(await task.taskComplete, '1:1');
+
+    cache.invalidate([1]);
+    assert.equal(task.status, TaskStatus.PENDING);
+    assert.equal(await task.taskComplete, '1:2');
+  });
+});
@@ -297,6 +297,82 @@ suite('Task', () => {
     assert.equal(el.taskValue, `a1,b`);
   });
 
+  test('awaitOnServer tasks complete with server-rendered values', async () => {
+    const el = getTestElement({
+      args: () => [el.a, el.b],
+      awaitOnServer: true,
+    });
+    el.setAttribute('hydrate-task-values', '[{"value":"server"}]');
+    await renderElement(el);
+    assert.isFalse(el.hasAttribute('hydrate-task-values'));
+    assert.equal(el.task.status, TaskStatus.COMPLETE);
+    assert.equal(el.renderedStatus, 'server');
+
+    // An element update should not cause a rerun
+    el.requestUpdate();
+    await tasksUpdateComplete();
+    assert.equal(el.task.status, TaskStatus.COMPLETE);
+
+    // The server value isn't used again when the element reconnects
+    container.removeChild(el);
+    container.appendChild(el);
+    assert.equal(el.task.value, 'server');
+
+    // The task still reruns when arguments change
+    el.a = 'a1';
+    await tasksUpdateComplete();
+    assert.equal(el.task.status, TaskStatus.PENDING);
+    el.resolveTask();
+    await tasksUpdateComplete();
+    assert.equal(el.renderedStatus, 'a1,b');
+  });
+
+  test('awaitOnServer tasks without server-rendered values run', async () => {
+    const el = getTestElement({
+      args: () => [el.a, el.b],
+      awaitOnServer: true,
+    });
+    el.setAttribute('hydrate-task-values', '[null]');
+    await renderElement(el);
+    assert.equal(el.task.status, TaskStatus.PENDING);
+    el.resolveTask();
+    await tasksUpdateComplete();
+    assert.equal(el.renderedStatus, 'a,b');
+  });
+
+  test('staleWhileRevalidate renders the previous value while pending', async () => {
+    const el = getTestElement({
+      args: () => [el.a, el.b],
+      staleWhileRevalidate: true,
+    });
+    await renderElement(el);
+    // There's no previous value to render yet
+    assert.equal(el.renderedStatus, 'pending');
+    el.resolveTask();
+    await tasksUpdateComplete();
+    assert.equal(el.renderedStatus, 'a,b');
+
+    el.a = 'a1';
+    await tasksUpdateComplete();
+    assert.equal(el.task.status, TaskStatus.PENDING);
+    assert.equal(el.task.value, 'a,b');
+    assert.equal(el.renderedStatus, 'a,b');
+    el.resolveTask();
+    await tasksUpdateComplete();
+    assert.equal(el.task.status, TaskStatus.COMPLETE);
+    assert.equal(el.renderedStatus, 'a1,b');
+
+    // There's no previous value after an error
+    el.task.taskComplete.catch(() => {});
+    el.a = 'a2';
+    await tasksUpdateComplete();
+    el.rejectTask('error');
+    await tasksUpdateComplete();
+    el.a = 'a3';
+    await tasksUpdateComplete();
+    assert.equal(el.renderedStatus, 'pending');
+  });
+
   test('task error is not reset on rerun', async () => {
     const el = getTestElement({args: () => [el.a, el.b]});
     await renderElement(el);
@@ -525,6 +601,400 @@ suite('Task', () => {
     assert.equal(el.taskValue, expected);
   });
 
+  test('tasks retry failed attempts', async () => {
+    const el = getTestElement({
+      args: () => [el.a, el.b],
+      retry: {attempts: 3},
+    });
+    await renderElement(el);
+    assert.equal(el.task.status, TaskStatus.PENDING);
+    assert.equal(el.task.attempt, 1);
+
+    // Failed attempts are retried while the task stays pending
+    el.rejectTask('error 1');
+    await tasksUpdateComplete();
+    assert.equal(el.task.status, TaskStatus.PENDING);
+    assert.equal(el.task.attempt, 2);
+    el.rejectTask('error 2');
+    await tasksUpdateComplete();
+    assert.equal(el.task.status, TaskStatus.PENDING);
+    assert.equal(el.task.attempt, 3);
+    el.resolveTask();
+    await tasksUpdateComplete();
+    assert.equal(el.task.status, TaskStatus.COMPLETE);
+    assert.equal(el.task.value, 'a,b');
+    assert.equal(el.task.error, undefined);
+
+    // A new run starts at the first attempt, and reports the last error once
+    // all attempts fail
+    el.a = 'a1';
+    await tasksUpdateComplete();
+    assert.equal(el.task.attempt, 1);
+    // Catch the rejection to suppress uncaught rejection warnings
+    el.task.taskComplete.catch(() => {});
+    for (let i = 1; i <= 3; i++) {
+      el.rejectTask(`error ${i}`);
+      await tasksUpdateComplete();
+    }
+    assert.equal(el.task.status, TaskStatus.ERROR);
+    assert.equal(el.task.error, 'error 3');
+    assert.equal(el.task.attempt, 3);
+  });
+
+  test('retryOn and backoff configure retries', async () => {
+    const backoffCalls: Array<[number, unknown]> = [];
+    const el = getTestElement({
+      args: () => [el.a, el.b],
+      retry: {
+        attempts: 5,
+        backoff: (attempt, error) => {
+          backoffCalls.push([attempt, error]);
+          return 1;
+        },
+        retryOn: (error) => error !== 'fatal',
+      },
+    });
+    await renderElement(el);
+
+    el.rejectTask('error');
+    await tasksUpdateComplete();
+    assert.deepEqual(backoffCalls, [[1, 'error']]);
+    assert.equal(el.task.attempt, 2);
+
+    // Errors that retryOn() rejects aren't retried
+    el.task.taskComplete.catch(() => {});
+    el.rejectTask('fatal');
+    await tasksUpdateComplete();
+    assert.equal(el.task.status, TaskStatus.ERROR);
+    assert.equal(el.task.error, 'fatal');
+    assert.equal(el.task.attempt, 2);
+    assert.equal(backoffCalls.length, 1);
+  });
+
+  test('tasks can be aborted while waiting to retry', async () => {
+    const el = getTestElement({
+      args: () => [el.a, el.b],
+      retry: {attempts: 3, backoff: 1000},
+    });
+    await renderElement(el);
+
+    el.task.taskComplete.catch(() => {});
+    el.rejectTask('error');
+    await tasksUpdateComplete();
+    assert.equal(el.task.status, TaskStatus.PENDING);
+    el.task.abort('testing');
+    await tasksUpdateComplete();
+    assert.equal(el.task.status, TaskStatus.ERROR);
+    if (supportsAbortSignalReason) {
+      assert.equal(el.task.error, 'testing');
+    }
+    assert.equal(el.task.attempt, 1);
+  });
+
+  test('streaming tasks update their value with each chunk', async () => {
+    let next!: () => void;
+    const el = getTestElement({
+      args: () => [el.a, el.b],
+      stream: true,
+      async *task([a, b]) {
+        for (const chunk of [a, `${a},${b}`]) {
+          await new Promise<void>((resolve) => (next = resolve));
+          yield chunk as string;
+        }
+      },
+    });
+    await renderElement(el);
+    assert.equal(el.task.status, TaskStatus.PENDING);
+    const taskComplete = el.task.taskComplete;
+
+    next();
+    await tasksUpdateComplete();
+    assert.equal(el.task.status, TaskStatus.STREAMING);
+    assert.equal(el.task.value, 'a');
+    // Without a streaming renderer, the complete renderer is used
+    assert.equal(el.renderedStatus, 'a');
+
+    next();
+    await tasksUpdateComplete();
+    assert.equal(el.task.status, TaskStatus.COMPLETE);
+    assert.equal(el.renderedStatus, 'a,b');
+    assert.equal(await taskComplete, 'a,b');
+  });
+
+  test('async iterables are values of tasks without the stream option', async () => {
+    const iterable = (async function* () {
+      yield 'a';
+    })();
+    const el = getTestElement({
+      args: () => [el.a, el.b],
+      task: () => iterable as unknown as string,
+    });
+    await renderElement(el);
+    await el.task.taskComplete;
+    assert.equal(el.task.status, TaskStatus.COMPLETE);
+    assert.strictEqual(el.task.value, iterable as unknown);
+  });
+
+  test('streaming tasks can be aborted', async () => {
+    let next!: () => void;
+    let finished = false;
+    const el = getTestElement({
+      args: () => [el.a, el.b],
+      stream: true,
+      async *task([a, b], {signal}) {
+        try {
+          for (const chunk of [a, `${a},${b}`]) {
+            await new Promise<void>((resolve, reject) => {
+              next = resolve;
+              signal.addEventListener('abort', () => reject(signal.reason));
+            });
+            yield chunk as string;
+          }
+        } finally {
+          finished = true;
+        }
+      },
+    });
+    await renderElement(el);
+    next();
+    await tasksUpdateComplete();
+    assert.equal(el.task.status, TaskStatus.STREAMING);
+
+    el.task.taskComplete.catch(() => {});
+    el.task.abort('testing');
+    await tasksUpdateComplete();
+    assert.isTrue(finished);
+    assert.equal(el.task.status, TaskStatus.ERROR);
+    if (supportsAbortSignalReason) {
+      assert.equal(el.task.error, 'testing');
+    }
+  });
+
+  test('tasks wait for, fail with, and abort with their dependencies', async () => {
+    class TestElement extends ReactiveElement {
+      resolveUser!: (user: string) => void;
+      rejectUser!: (error: string) => void;
+      resolveProjects!: () => void;
+      projectsSignal?: AbortSignal;
+      projectsCalls = 0;
+
+      user = new Task(this, {
+        task: () =>
+          new Promise<string>((resolve, reject) => {
+            this.resolveUser = resolve;
+            this.rejectUser = reject;
+          }),
+        args: () => [],
+      });
+
+      projects = new Task(this, {
+        task: ([user], {signal}) => {
+          this.projectsCalls++;
+          this.projectsSignal = signal;
+          return new Promise<string>(
+            (resolve) =>
+              (this.resolveProjects = () => resolve(`${user}'s projects`))
+          );
+        },
+        args: () => [this.user.value],
+        dependencies: [this.user],
+      });
+    }
+    customElements.define(generateElementName(), TestElement);
+    const el = new TestElement();
+    container.appendChild(el);
+    await tasksUpdateComplete();
+    assert.equal(el.user.status, TaskStatus.PENDING);
+    assert.equal(el.projects.status, TaskStatus.PENDING);
+    assert.equal(el.projectsCalls, 0);
+
+    el.resolveUser('ann');
+    await tasksUpdateComplete();
+    assert.equal(el.projectsCalls, 1);
+    el.resolveProjects();
+    await tasksUpdateComplete();
+    assert.equal(el.projects.status, TaskStatus.COMPLETE);
+    assert.equal(el.projects.value, "ann's projects");
+
+    // Re-running the dependency makes the task wait again
+    el.user.run();
+    await tasksUpdateComplete();
+    assert.equal(el.projects.status, TaskStatus.PENDING);
+    el.resolveUser('bob');
+    await tasksUpdateComplete();
+    assert.equal(el.projectsCalls, 2);
+
+    // Re-running the dependency while the task runs aborts the task's run
+    const signal = el.projectsSignal!;
+    assert.isFalse(signal.aborted);
+    el.user.run();
+    await tasksUpdateComplete();
+    assert.isTrue(signal.aborted);
+    assert.equal(el.projects.status, TaskStatus.PENDING);
+    el.resolveUser('bob');
+    await tasksUpdateComplete();
+    el.resolveProjects();
+    await tasksUpdateComplete();
+    assert.equal(el.projects.value, "bob's projects");
+    assert.equal(el.projectsCalls, 3);
+
+    // Dependency errors are propagated
+    el.user.taskComplete.catch(() => {});
+    el.projects.taskComplete.catch(() => {});
+    el.user.run();
+    await tasksUpdateComplete();
+    el.rejectUser('error');
+    await tasksUpdateComplete();
+    assert.equal(el.projects.status, TaskStatus.ERROR);
+    assert.equal(el.projects.error, 'error');
+    assert.equal(el.projectsCalls, 3);
+  });
+
+  test('tasks created on connected hosts fail with their dependencies', async () => {
+    class TestElement extends ReactiveElement {}
+    customElements.define(generateElementName(), TestElement);
+    const el = new TestElement();
+    container.appendChild(el);
+    await el.updateComplete;
+
+    let rejectUser!: (error: string) => void;
+    const user = new Task(el, {
+      task: () => new Promise<string>((_, reject) => (rejectUser = reject)),
+      args: () => [],
+    });
+    // The args don't change when the dependency fails
+    const projects = new Task(el, {
+      task: ([user]) => `${user}'s projects`,
+      args: () => ['ann'],
+      dependencies: [user],
+    });
+    el.requestUpdate();
+    await tasksUpdateComplete();
+    assert.equal(user.status, TaskStatus.PENDING);
+    assert.equal(projects.status, TaskStatus.PENDING);
+
+    user.taskComplete.catch(() => {});
+    projects.taskComplete.catch(() => {});
+    rejectUser('error');
+    await tasksUpdateComplete();
+    assert.equal(projects.status, TaskStatus.ERROR);
+    assert.equal(projects.error, 'error');
+  });
+
+  test('tasks that do not autoRun only re-run runs waiting for dependencies', async () => {
+    class TestElement extends ReactiveElement {
+      resolveUser!: (user: string) => void;
+
+      user = new Task(this, {
+        task: () =>
+          new Promise<string>((resolve) => (this.resolveUser = resolve)),
+        args: () => [],
+      });
+
+      projects = new Task(this, {
+        task: ([user]) => `${user}'s projects`,
+        args: () => [this.user.value],
+        dependencies: [this.user],
+        autoRun: false,
+      });
+    }
+    customElements.define(generateElementName(), TestElement);
+    const el = new TestElement();
+    container.appendChild(el);
+    await tasksUpdateComplete();
+
+    el.projects.run();
+    assert.equal(el.projects.status, TaskStatus.PENDING);
+    el.resolveUser('ann');
+    await tasksUpdateComplete();
+    assert.equal(el.projects.status, TaskStatus.COMPLETE);
+    assert.equal(el.projects.value, "ann's projects");
+
+    el.user.run();
+    await tasksUpdateComplete();
+    el.resolveUser('bob');
+    await tasksUpdateComplete();
+    assert.equal(el.projects.status, TaskStatus.COMPLETE);
+    assert.equal(el.projects.value, "ann's projects");
+  });
+
+  test('tasks run with args re-run with them when dependencies change', async () => {
+    class TestElement extends ReactiveElement {
+      resolveUser!: (user: string) => void;
+
+      user = new Task(this, {
+        task: () =>
+          new Promise<string>((resolve) => (this.resolveUser = resolve)),
+        args: () => [],
+      });
+
+      projects = new Task(this, {
+        task: ([filter]: [string]) => `${this.user.value}'s ${filter} projects`,
+        dependencies: [this.user],
+      });
+    }
+    customElements.define(generateElementName(), TestElement);
+    const el = new TestElement();
+    container.appendChild(el);
+    await tasksUpdateComplete();
+    el.resolveUser('ann');
+    await tasksUpdateComplete();
+
+    el.projects.run(['open']);
+    await tasksUpdateComplete();
+    assert.equal(el.projects.value, "ann's open projects");
+
+    el.user.run();
+    await tasksUpdateComplete();
+    assert.equal(el.projects.status, TaskStatus.PENDING);
+    el.resolveUser('bob');
+    await tasksUpdateComplete();
+    assert.equal(el.projects.status, TaskStatus.COMPLETE);
+    assert.equal(el.projects.value, "bob's open projects");
+  });
+
+  test('tasks return to INITIAL when their dependencies do', async () => {
+    class TestElement extends ReactiveElement {
+      @property()
+      userId?: string;
+
+      resolveUser!: (user: string) => void;
+
+      user = new Task(this, {
+        task: ([userId]) =>
+          userId === undefined
+            ? initialState
+            : new Promise<string>((resolve) => (this.resolveUser = resolve)),
+        args: () => [this.userId],
+      });
+
+      projects = new Task(this, {
+        task: ([user]) => `${user}'s projects`,
+        args: () => [this.user.value],
+        dependencies: [this.user],
+      });
+    }
+    customElements.define(generateElementName(), TestElement);
+    const el = new TestElement();
+    container.appendChild(el);
+    await tasksUpdateComplete();
+    assert.equal(el.user.status, TaskStatus.INITIAL);
+    assert.equal(el.projects.status, TaskStatus.INITIAL);
+
+    el.userId = 'ann';
+    await tasksUpdateComplete();
+    assert.equal(el.projects.status, TaskStatus.PENDING);
+    el.resolveUser('ann');
+    await tasksUpdateComplete();
+    assert.equal(el.projects.status, TaskStatus.COMPLETE);
+    assert.equal(el.projects.value, "ann's projects");
+
+    el.userId = undefined;
+    await tasksUpdateComplete();
+    assert.equal(el.user.status, TaskStatus.INITIAL);
+    assert.equal(el.projects.status, TaskStatus.INITIAL);
+  });
+
   test('errors can be undefined', async () => {
     const el = getTestElement({args: () => [el.a, el.b]});
     await renderElement(el);
@@ -1051,6 +1521,7 @@ suite('Task', () => {
     accept<number | undefined>(el.task.render({complete: () => 123}));
     accept<number | undefined>(el.task.render({pending: () => 123}));
     accept<number | undefined>(el.task.render({error: () => 123}));
+    accept<number | undefined>(el.task.render({streaming: () => 123}));
     accept<number | undefined>(
       el.task.render({initial: () => 123, complete: () => 123})
     );
@@ -172,6 +172,7 @@ const config: TestRunnerConfig = {
     '../labs/observers/development/**/*_test.(js|html)',
     '../labs/router/development/**/*_test.js',
     '../labs/scoped-registry-mixin/development/**/*_test.(js|html)',
+    '../labs/ssr-client/development/**/*_test.js',
     '../labs/task/development/**/*_test.(js|html)',
     '../context/development/**/*_test.(js|html)',
     '../task/development/**/*_test.(js|html)',
@@ -84,6 +84,9 @@ const reservedProperties = [
   '_$litStatic$',
   '_$cssResult$',
   '_$litProps$',
+  '_$litTasks$',
+  '_$litContextRequests$',
+  '_$litContextProviders$',
 ];
 
 // Private properties which should be stable between versions but are used on